@@ -0,0 +1,19 @@
+import EmbedCompressor from "@/components/embed-compressor";
+import type { Metadata } from "next";
+import { Suspense } from "react";
+
+export const metadata: Metadata = {
+  title: "Compress MP4 Widget",
+  robots: { index: false, follow: false },
+};
+
+// Widget only, loaded by public/embed.js inside an iframe
+export default function EmbedPage() {
+  return (
+    <main className="w-full bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-50 font-sans p-4">
+      <Suspense>
+        <EmbedCompressor />
+      </Suspense>
+    </main>
+  );
+}
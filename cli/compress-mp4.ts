@@ -0,0 +1,391 @@
+#!/usr/bin/env node
+/**
+ * compress-mp4 命令行
+ *
+ * 在 Node.js 中运行单线程 ffmpeg.wasm 核心，与网页使用同一套压缩计划
+ * （lib/compression-plan），相同的选项生成完全相同的 FFmpeg 参数。
+ * 结果以 JSON 输出到 stdout，进度与错误输出到 stderr，便于 CI 与批处理脚本解析。
+ *
+ * 用法：compress-mp4 in.mov --ratio 40 --out out.mp4
+ */
+
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  buildCompressionPlan,
+  BYTES_PER_MB,
+  RESOLUTION_BOXES,
+  resolveCompressionOptions,
+  type AudioMode,
+  type CompressionInput,
+  type CompressionPreset,
+  type ResolutionSettings,
+} from "../lib/compression-plan";
+import { VIDEO_CODECS, type VideoCodecId } from "../lib/codecs";
+import { parseEncoders, ST_HEAP_LIMIT } from "../lib/ffmpeg";
+import { OUTPUT_FORMATS, type OutputFormatId } from "../lib/formats";
+import { getDisplaySize, parseMediaInfo } from "../lib/media-info";
+
+/**
+ * @ffmpeg/core 导出的 Emscripten 模块（仅列出用到的接口）
+ */
+interface FFmpegCore {
+  FS: {
+    mkdir: (path: string) => void;
+    writeFile: (path: string, data: Uint8Array) => void;
+    readFile: (path: string) => Uint8Array;
+    unlink: (path: string) => void;
+  };
+  /** 上一次 exec 的退出码 */
+  ret: number;
+  exec: (...args: string[]) => number;
+  reset: () => void;
+  setLogger: (logger: (log: { type: string; message: string }) => void) => void;
+  setProgress: (
+    handler: (event: { progress: number; time: number }) => void,
+  ) => void;
+}
+
+type CreateFFmpegCore = (options: {
+  wasmBinary: Buffer;
+}) => Promise<FFmpegCore>;
+
+/** 用法说明 */
+const USAGE = `用法：compress-mp4 <input> [选项]
+
+大小（三选一，默认 --ratio 70）：
+  --ratio <1-100>          输出为原文件大小的百分比
+  --target-size <MB>       目标文件大小
+  --crf <n>                恒定画质模式
+
+输出：
+  -o, --out <path>         输出文件（默认 <input>-compressed.<ext>）
+  --format <id>            ${Object.keys(OUTPUT_FORMATS).join(" | ")}（默认 mp4）
+  --codec <id>             ${Object.keys(VIDEO_CODECS).join(" | ")}
+  --two-pass               两遍编码（比例与目标大小模式）
+  --audio <mode>           keep | encode | mono | remove（默认 keep）
+  --audio-bitrate <kbps>   音频码率（默认 128）
+  --resolution <preset>    auto | original | ${Object.keys(RESOLUTION_BOXES).join(" | ")} | <宽度>
+  --fps <n>                帧率上限
+  --start <秒>             裁剪起点
+  --end <秒>               裁剪终点
+  -h, --help               显示帮助`;
+
+/**
+ * 参数错误（退出码 2）
+ */
+class UsageError extends Error {}
+
+/**
+ * 解析数值参数，未传入时返回 undefined
+ */
+function parseNumber(
+  value: string | undefined,
+  name: string,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`--${name} 需要数值，收到 "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * 校验枚举参数
+ */
+function parseChoice<T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  name: string,
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} 可选值：${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * 解析 --resolution：预设名称或自定义宽度
+ */
+function parseResolution(
+  value: string | undefined,
+): ResolutionSettings | undefined {
+  if (value === undefined) return undefined;
+  if (value === "auto" || value === "original" || value in RESOLUTION_BOXES) {
+    return { preset: value as ResolutionSettings["preset"], customWidth: 0 };
+  }
+  const width = parseNumber(value, "resolution")!;
+  if (width < 2) throw new UsageError("--resolution 宽度至少为 2");
+  return { preset: "custom", customWidth: Math.round(width) };
+}
+
+/**
+ * 解析命令行参数
+ *
+ * @throws UsageError 参数不合法时
+ */
+function parseCliArgs(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      ratio: { type: "string" },
+      "target-size": { type: "string" },
+      crf: { type: "string" },
+      format: { type: "string" },
+      codec: { type: "string" },
+      "two-pass": { type: "boolean" },
+      audio: { type: "string" },
+      "audio-bitrate": { type: "string" },
+      resolution: { type: "string" },
+      fps: { type: "string" },
+      start: { type: "string" },
+      end: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) {
+    throw new UsageError("需要且只能指定一个输入文件");
+  }
+
+  const ratio = parseNumber(values.ratio, "ratio");
+  const targetSizeMB = parseNumber(values["target-size"], "target-size");
+  const crf = parseNumber(values.crf, "crf");
+  const sizeOptions = [ratio, targetSizeMB, crf].filter((v) => v !== undefined);
+  if (sizeOptions.length > 1) {
+    throw new UsageError("--ratio、--target-size 与 --crf 只能指定一个");
+  }
+  if (ratio !== undefined && (ratio < 1 || ratio > 100)) {
+    throw new UsageError("--ratio 范围为 1-100");
+  }
+  if (targetSizeMB !== undefined && targetSizeMB <= 0) {
+    throw new UsageError("--target-size 必须大于 0");
+  }
+
+  const start = parseNumber(values.start, "start");
+  const end = parseNumber(values.end, "end");
+  const audioMode = parseChoice<AudioMode>(
+    values.audio,
+    ["keep", "encode", "mono", "remove"],
+    "audio",
+  );
+  const audioKbps = parseNumber(values["audio-bitrate"], "audio-bitrate");
+
+  const preset: CompressionPreset = {
+    ...(targetSizeMB !== undefined
+      ? { sizeMode: "target" as const, targetSizeMB }
+      : crf !== undefined
+        ? { sizeMode: "quality" as const, crf }
+        : { sizeMode: "ratio" as const, ratio }),
+    twoPass: values["two-pass"],
+    format: parseChoice(
+      values.format,
+      Object.keys(OUTPUT_FORMATS) as OutputFormatId[],
+      "format",
+    ),
+    codec: parseChoice(
+      values.codec,
+      Object.keys(VIDEO_CODECS) as VideoCodecId[],
+      "codec",
+    ),
+    audio:
+      audioMode || audioKbps !== undefined
+        ? { mode: audioMode ?? "keep", kbps: audioKbps ?? 128 }
+        : undefined,
+    resolution: parseResolution(values.resolution),
+    fpsCap: parseNumber(values.fps, "fps"),
+  };
+
+  return {
+    input: positionals[0],
+    out: values.out,
+    preset,
+    trim:
+      start !== undefined || end !== undefined
+        ? { start: start ?? 0, end: end ?? Infinity }
+        : null,
+  };
+}
+
+/**
+ * 加载单线程核心
+ *
+ * UMD 构建通过 self.location 定位 wasm 文件，Node.js 中需要提供 self，
+ * 并直接传入 wasmBinary 跳过 fetch。
+ */
+async function loadCore(): Promise<FFmpegCore> {
+  const require = createRequire(__filename);
+  const corePath = require.resolve("@ffmpeg/core");
+  const coreDir = path.dirname(corePath);
+  Object.assign(globalThis, {
+    self: { location: { href: pathToFileURL(coreDir + path.sep).href } },
+  });
+  const createFFmpegCore = require(corePath) as CreateFFmpegCore;
+  const wasmBinary = await readFile(path.join(coreDir, "ffmpeg-core.wasm"));
+  return createFFmpegCore({ wasmBinary });
+}
+
+/**
+ * 执行 FFmpeg 命令并收集日志
+ */
+function run(
+  core: FFmpegCore,
+  args: string[],
+): { exitCode: number; logs: string[] } {
+  const logs: string[] = [];
+  core.setLogger(({ message }) => logs.push(message));
+  try {
+    core.exec(...args);
+    return { exitCode: core.ret, logs };
+  } finally {
+    core.reset();
+    core.setLogger(() => {});
+  }
+}
+
+/**
+ * 取最后几行日志附加到错误信息
+ */
+function tail(logs: string[]): string {
+  return logs.slice(-5).join("\n");
+}
+
+async function main(): Promise<number> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`[compress-mp4] ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const startedAt = performance.now();
+  const inputPath = path.resolve(args.input);
+  const { size } = await stat(inputPath);
+  const core = await loadCore();
+
+  // 探测媒体信息与可用编码器
+  const probeStartedAt = performance.now();
+  const probePath = `probe-input${path.extname(inputPath)}`;
+  const data = await readFile(inputPath);
+  core.FS.writeFile(probePath, data);
+  const probe = run(core, ["-hide_banner", "-i", probePath]);
+  core.FS.unlink(probePath);
+  const media = parseMediaInfo(probe.logs);
+  if (!media) throw new Error("无法识别的媒体文件");
+  if (!media.video || media.duration <= 0) {
+    throw new Error("没有可压缩的视频流");
+  }
+  const encoders = parseEncoders(run(core, ["-hide_banner", "-encoders"]).logs);
+  const probeMs = performance.now() - probeStartedAt;
+
+  const input: CompressionInput = {
+    size,
+    duration: media.duration,
+    ...getDisplaySize(media.video),
+    media,
+  };
+  const trim = args.trim && {
+    start: Math.max(0, args.trim.start),
+    end: Math.min(media.duration, args.trim.end),
+  };
+  if (trim && trim.end <= trim.start) {
+    console.error("[compress-mp4] 裁剪范围为空");
+    return 2;
+  }
+  const options = resolveCompressionOptions(
+    { ...args.preset, trim },
+    encoders,
+    input,
+  );
+  const plan = buildCompressionPlan(input, options);
+  const format = OUTPUT_FORMATS[options.format];
+  const outputPath = path.resolve(
+    args.out ??
+      inputPath.replace(/\.[^/.]+$/, "") + `-compressed.${format.extension}`,
+  );
+  // 输入同样占用 wasm 内存，超出上限时大概率中途失败，但仍然尝试
+  const memory = plan.estimatedMemory + size;
+  if (memory > ST_HEAP_LIMIT) {
+    console.error(
+      `[compress-mp4] 预计需要 ${Math.round(memory / BYTES_PER_MB)} MB 内存，` +
+        `超过核心上限 ${Math.round(ST_HEAP_LIMIT / BYTES_PER_MB)} MB，可能内存不足`,
+    );
+  }
+
+  // 执行每一遍编码，进度按裁剪后的时长换算
+  const encodeStartedAt = performance.now();
+  const progressScale = plan.duration > 0 ? input.duration / plan.duration : 1;
+  // Node.js 中没有 WORKERFS，输入直接写入 MEMFS
+  core.FS.mkdir(path.posix.dirname(plan.inputFile));
+  core.FS.writeFile(plan.inputFile, data);
+  for (const [index, passArgs] of plan.passes.entries()) {
+    core.setProgress(({ progress }) => {
+      if (progress <= 0 || progress > 1 || !process.stderr.isTTY) return;
+      const overall =
+        (index + Math.min(1, progress * progressScale)) / plan.passes.length;
+      process.stderr.write(`\r[compress-mp4] ${(overall * 100).toFixed(1)}%`);
+    });
+    const { exitCode, logs } = run(core, passArgs);
+    if (exitCode !== 0) {
+      throw new Error(`FFmpeg 执行失败 (exit code ${exitCode})\n${tail(logs)}`);
+    }
+  }
+  if (process.stderr.isTTY) process.stderr.write("\n");
+  const output = core.FS.readFile(plan.outputFile);
+  await writeFile(outputPath, output);
+  const encodeMs = performance.now() - encodeStartedAt;
+
+  const round = (ms: number) => Math.round(ms);
+  const result = {
+    input: {
+      path: inputPath,
+      size,
+      duration: input.duration,
+      width: input.width,
+      height: input.height,
+    },
+    output: {
+      path: outputPath,
+      size: output.byteLength,
+      ratio: output.byteLength / size,
+      format: options.format,
+      codec: options.format === "gif" ? null : options.codec,
+      ...plan.output,
+    },
+    plan: {
+      expectedSize: plan.expectedSize,
+      expectedSizeMB:
+        plan.expectedSize === null ? null : plan.expectedSize / BYTES_PER_MB,
+      estimatedMemory: plan.estimatedMemory,
+      passes: plan.passes,
+    },
+    timings: {
+      probeMs: round(probeMs),
+      encodeMs: round(encodeMs),
+      totalMs: round(performance.now() - startedAt),
+    },
+  };
+  console.log(JSON.stringify(result, null, 2));
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: Error) => {
+    console.error(`[compress-mp4] ${error.message}`);
+    process.exit(1);
+  },
+);
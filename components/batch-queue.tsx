@@ -0,0 +1,388 @@
+"use client";
+
+import type { QueueItem } from "@/lib/hooks/useCompressionQueue";
+import { cn, formatBytes, formatTime } from "@/lib/utils";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+
+// Icons
+import {
+  Archive,
+  CheckCircle2,
+  Download,
+  FileVideo,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  RotateCcw,
+  SkipForward,
+  X,
+  XCircle,
+} from "lucide-react";
+
+// Types
+export interface BatchItemInput {
+  file: File;
+  exportName: string;
+}
+
+export interface BatchItemResult {
+  blobUrl: string;
+  size: number;
+  timeCost: number; // seconds
+}
+
+export type BatchQueueItem = QueueItem<BatchItemInput, BatchItemResult>;
+
+interface BatchQueueProps {
+  items: BatchQueueItem[];
+  activeId: string | null;
+  /** Progress of the active item, 0-100 */
+  activeProgress: number;
+  isRunning: boolean;
+  isPaused: boolean;
+  /** Engine is reloading after a skip; controls are disabled meanwhile */
+  isRestarting: boolean;
+  /** Output settings applied to every item, e.g. "MP4 · H.264 · 70%" */
+  settingsSummary: string;
+  /** Compression ratio, null when the settings use another size mode */
+  ratio: number | null;
+  onRatioChange: (ratio: number) => void;
+  /** Preflight warnings for queued items, keyed by item id */
+  warnings: Record<string, string>;
+  onStart: () => void;
+  onPause: () => void;
+  onSkip: () => void;
+  onRetry: (id?: string) => void;
+  onRemove: (id: string) => void;
+  onExportNameChange: (id: string, exportName: string) => void;
+  onDownload: (item: BatchQueueItem) => void;
+  /** ZIP archive is being built */
+  isZipping: boolean;
+  /** Last ZIP build error, empty when none */
+  zipError: string;
+  onDownloadAll: () => void;
+  onAddFiles: (files: File[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Multi-file compression queue: per-item status, progress, result size and download.
+ */
+export default function BatchQueue({
+  items,
+  activeId,
+  activeProgress,
+  isRunning,
+  isPaused,
+  isRestarting,
+  settingsSummary,
+  ratio,
+  onRatioChange,
+  warnings,
+  onStart,
+  onPause,
+  onSkip,
+  onRetry,
+  onRemove,
+  onExportNameChange,
+  onDownload,
+  isZipping,
+  zipError,
+  onDownloadAll,
+  onAddFiles,
+  onClose,
+}: BatchQueueProps) {
+  const doneItems = items.filter((item) => item.status === "success");
+  const failedCount = items.filter((item) => item.status === "error").length;
+  const pendingCount = items.filter((item) => item.status === "pending").length;
+  const originalTotal = doneItems.reduce(
+    (sum, item) => sum + item.input.file.size,
+    0,
+  );
+  const compressedTotal = doneItems.reduce(
+    (sum, item) => sum + (item.result?.size ?? 0),
+    0,
+  );
+
+  return (
+    <div className="flex flex-col">
+      {/* Queue Summary Bar */}
+      <div className="bg-zinc-100/50 dark:bg-zinc-950/30 border-b border-zinc-200 dark:border-zinc-800 p-6 flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="font-bold text-lg text-zinc-900 dark:text-zinc-50">
+            Batch Queue
+          </p>
+          <div className="flex items-center gap-3 text-xs font-mono text-zinc-500 uppercase tracking-tight">
+            <span className="bg-zinc-200 dark:bg-zinc-800 px-1.5 py-0.5 rounded-[2px] text-zinc-700 dark:text-zinc-300">
+              {doneItems.length}/{items.length} Done
+            </span>
+            {failedCount > 0 && (
+              <>
+                <span>|</span>
+                <span className="text-red-500">{failedCount} Failed</span>
+              </>
+            )}
+            {doneItems.length > 0 && (
+              <>
+                <span>|</span>
+                <span>
+                  {formatBytes(originalTotal)} → {formatBytes(compressedTotal)}
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+        {!isRunning && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-[2px] hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-500 w-8 h-8"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Settings & Controls */}
+      <div className="p-6 space-y-6 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="space-y-4">
+          <div className="flex justify-between items-end gap-4">
+            <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+              {ratio === null ? "Output Settings" : "Compression Level"}
+            </Label>
+            {ratio === null ? (
+              <span className="font-mono text-sm font-bold text-zinc-900 dark:text-zinc-100 uppercase tracking-tight text-right">
+                {settingsSummary}
+              </span>
+            ) : (
+              <span className="font-mono text-2xl font-bold text-zinc-900 dark:text-zinc-100 tracking-tighter">
+                {ratio}
+                <span className="text-sm text-zinc-400 align-top ml-1">%</span>
+              </span>
+            )}
+          </div>
+          {ratio !== null && (
+            <Slider
+              value={[ratio]}
+              onValueChange={(v) => onRatioChange(v[0])}
+              min={1}
+              max={100}
+              step={1}
+              className="py-2 cursor-col-resize"
+            />
+          )}
+          <p className="text-xs font-mono text-zinc-400">
+            {ratio === null ? "" : `${settingsSummary} · `}Applied to each file
+            when it starts compressing
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isRunning && !isPaused ? (
+            <Button
+              onClick={onPause}
+              variant="outline"
+              className="uppercase tracking-widest text-xs font-bold rounded-[2px] border-2"
+            >
+              <Pause className="mr-2 h-4 w-4" />
+              Pause
+            </Button>
+          ) : (
+            <Button
+              onClick={onStart}
+              disabled={pendingCount === 0 || isRestarting}
+              className="bg-orange-600 hover:bg-orange-700 text-white uppercase tracking-widest text-xs font-bold rounded-[2px]"
+            >
+              <Play className="mr-2 h-4 w-4" />
+              {isPaused ? "Resume" : "Start Queue"}
+            </Button>
+          )}
+          {activeId && (
+            <Button
+              onClick={onSkip}
+              disabled={isRestarting}
+              variant="outline"
+              className="uppercase tracking-widest text-xs font-bold rounded-[2px] border-2 border-red-200 text-red-600 hover:bg-red-50 dark:border-red-900/50 dark:hover:bg-red-900/30"
+            >
+              <SkipForward className="mr-2 h-4 w-4" />
+              Skip Current
+            </Button>
+          )}
+          {failedCount > 0 && (
+            <Button
+              onClick={() => onRetry()}
+              variant="outline"
+              className="uppercase tracking-widest text-xs font-bold rounded-[2px] border-2"
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry Failed
+            </Button>
+          )}
+          {doneItems.length > 0 && (
+            <Button
+              onClick={onDownloadAll}
+              disabled={isZipping}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white uppercase tracking-widest text-xs font-bold rounded-[2px]"
+            >
+              {isZipping ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Archive className="mr-2 h-4 w-4" />
+              )}
+              Download All (ZIP)
+            </Button>
+          )}
+          <Button
+            asChild
+            variant="outline"
+            className="uppercase tracking-widest text-xs font-bold rounded-[2px] border-2 cursor-pointer"
+          >
+            <label>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Files
+              <input
+                type="file"
+                multiple
+                accept="video/*,.mp4,.mov,.mkv,.webm,.avi"
+                onChange={(e) => {
+                  onAddFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+            </label>
+          </Button>
+        </div>
+        {zipError && (
+          <p className="text-xs font-mono text-red-500">{zipError}</p>
+        )}
+        {isRunning && isPaused && (
+          <p className="text-xs font-mono text-zinc-500">
+            Pausing after the current file finishes...
+          </p>
+        )}
+      </div>
+
+      {/* Queue Items */}
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {items.map((item) => (
+          <li key={item.id} className="p-4 flex items-center gap-4">
+            <div className="h-10 w-10 bg-white dark:bg-zinc-900 rounded-[2px] flex items-center justify-center shrink-0 border-2 border-zinc-200 dark:border-zinc-800">
+              {item.status === "compressing" ? (
+                <Loader2 className="h-5 w-5 animate-spin text-orange-600" />
+              ) : item.status === "success" ? (
+                <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+              ) : item.status === "error" ? (
+                <XCircle className="h-5 w-5 text-red-500" />
+              ) : (
+                <FileVideo className="h-5 w-5 text-zinc-400" />
+              )}
+            </div>
+
+            <div className="min-w-0 flex-1 space-y-1">
+              {item.status === "success" ? (
+                <Input
+                  value={item.input.exportName}
+                  onChange={(e) => onExportNameChange(item.id, e.target.value)}
+                  className="font-mono text-sm h-8 border-2 rounded-[2px] focus-visible:ring-0 focus-visible:border-orange-500"
+                />
+              ) : (
+                <p
+                  className="font-bold text-sm truncate text-zinc-900 dark:text-zinc-50"
+                  title={item.input.file.name}
+                >
+                  {item.input.file.name}
+                </p>
+              )}
+              <div className="flex items-center gap-3 text-xs font-mono text-zinc-500 uppercase tracking-tight">
+                <span>{formatBytes(item.input.file.size)}</span>
+                {item.status === "success" && item.result && (
+                  <>
+                    <span>→</span>
+                    <span
+                      className={cn(
+                        "font-bold",
+                        item.result.size > item.input.file.size
+                          ? "text-red-500"
+                          : "text-emerald-600",
+                      )}
+                    >
+                      {formatBytes(item.result.size)}
+                    </span>
+                    <span>|</span>
+                    <span>{formatTime(item.result.timeCost)}</span>
+                  </>
+                )}
+                {item.status === "pending" && <span>Queued</span>}
+                {item.status === "pending" && warnings[item.id] && (
+                  <span
+                    className="text-amber-600 dark:text-amber-500 normal-case truncate"
+                    title={warnings[item.id]}
+                  >
+                    {warnings[item.id]}
+                  </span>
+                )}
+                {item.status === "error" && (
+                  <span
+                    className="text-red-500 normal-case truncate"
+                    title={item.error}
+                  >
+                    {item.error}
+                  </span>
+                )}
+              </div>
+              {item.status === "compressing" && (
+                <div className="h-1.5 w-full bg-zinc-100 dark:bg-zinc-800 rounded-[1px] overflow-hidden">
+                  <div
+                    className="h-full bg-orange-600 transition-all duration-300 ease-out"
+                    style={{ width: `${activeProgress}%` }}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+              {item.status === "success" && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="rounded-[2px] w-8 h-8 hover:bg-emerald-100 hover:text-emerald-700 dark:hover:bg-emerald-900/20"
+                  onClick={() => onDownload(item)}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === "error" && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="rounded-[2px] w-8 h-8"
+                  onClick={() => onRetry(item.id)}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status !== "compressing" && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="rounded-[2px] w-8 h-8 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-500"
+                  onClick={() => onRemove(item.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import VideoCompressor, {
+  type CompressedOutput,
+  type VideoCompressorProps,
+} from "@/components/video-compressor";
+import { OUTPUT_FORMATS, type OutputFormatId } from "@/lib/formats";
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo } from "react";
+
+// Message types shared with public/embed.js
+const COMPRESSED_MESSAGE = "compress-mp4:compressed";
+const RESIZE_MESSAGE = "compress-mp4:resize";
+
+/**
+ * Read widget options from the query string set by the <compress-mp4> element:
+ * ?ratio=50&formats=mp4,webm&max-size=25. Invalid values are ignored.
+ */
+function parseEmbedOptions(
+  params: URLSearchParams,
+): Omit<VideoCompressorProps, "onCompressed"> {
+  const ratio = Number(params.get("ratio"));
+  const maxSizeMB = Number(params.get("max-size"));
+  const formats = (params.get("formats") ?? "")
+    .split(",")
+    .map((format) => format.trim().toLowerCase())
+    .filter((format): format is OutputFormatId => format in OUTPUT_FORMATS);
+
+  return {
+    defaultRatio: ratio >= 1 && ratio <= 100 ? ratio : undefined,
+    allowedFormats: formats.length > 0 ? formats : undefined,
+    maxSizeMB: maxSizeMB > 0 ? maxSizeMB : undefined,
+  };
+}
+
+/**
+ * Origin of the page embedding the iframe. ancestorOrigins can't be spoofed by
+ * the host; browsers without it fall back to the origin public/embed.js passes.
+ * Null when unknown, in which case nothing is posted, not even resize messages.
+ */
+function getHostOrigin(params: URLSearchParams): string | null {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return new URL(params.get("host") ?? "").origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compressor for the /embed iframe. Results and content height are posted
+ * to the host page, where public/embed.js turns them into DOM events.
+ */
+export default function EmbedCompressor() {
+  const searchParams = useSearchParams();
+  const options = useMemo(
+    () => parseEmbedOptions(searchParams),
+    [searchParams],
+  );
+
+  const handleCompressed = useCallback(
+    (output: CompressedOutput) => {
+      // Only the embedding page may receive the file
+      const hostOrigin = getHostOrigin(searchParams);
+      if (!hostOrigin) return;
+      // Blobs are structured-cloneable, the host receives the file itself
+      window.parent.postMessage(
+        { type: COMPRESSED_MESSAGE, ...output },
+        hostOrigin,
+      );
+    },
+    [searchParams],
+  );
+
+  // Let the host element size the iframe to the widget
+  useEffect(() => {
+    const hostOrigin = getHostOrigin(searchParams);
+    if (!hostOrigin) return;
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage(
+        {
+          type: RESIZE_MESSAGE,
+          height: document.documentElement.scrollHeight,
+        },
+        hostOrigin,
+      );
+    });
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [searchParams]);
+
+  return <VideoCompressor {...options} onCompressed={handleCompressed} />;
+}
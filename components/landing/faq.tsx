@@ -12,7 +12,7 @@ const faqs = [
   {
     question: "Is there a file size limit to compress MP4?",
     answer:
-      "There's no hard limit. However, since MP4 compression happens in browser memory, very large files (e.g., >2GB) might cause issues depending on your device's available RAM.",
+      "There's no hard limit. The original file is read straight from your disk instead of being copied into memory, so multi-gigabyte files work. The compressed output still has to fit in the engine's memory (1-2 GB), and you'll see a warning before starting a job that is likely to run out.",
   },
   {
     question: "What video formats can I compress?",
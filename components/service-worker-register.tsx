@@ -0,0 +1,15 @@
+"use client";
+
+import { registerServiceWorker } from "@/lib/service-worker";
+import { useEffect } from "react";
+
+/**
+ * Registers the offline service worker once the page has loaded.
+ */
+export default function ServiceWorkerRegister() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null;
+}
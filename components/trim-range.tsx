@@ -0,0 +1,148 @@
+"use client";
+
+import { formatTimecode } from "@/lib/utils";
+import { useRef } from "react";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+
+// Icons
+import { ChevronLeft, ChevronRight, RotateCcw } from "lucide-react";
+
+interface TrimRangeProps {
+  /** Object URL of the source video */
+  src: string;
+  /** Full duration in seconds */
+  duration: number;
+  /** Frame rate used for frame stepping and snapping */
+  fps: number;
+  /** In/out points in seconds */
+  value: [number, number];
+  onChange: (value: [number, number]) => void;
+}
+
+/**
+ * Preview with an in/out range selector. Handles and frame steps snap to
+ * whole frames; the preview seeks to whichever point is being adjusted.
+ */
+export default function TrimRange({
+  src,
+  duration,
+  fps,
+  value,
+  onChange,
+}: TrimRangeProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const frame = 1 / fps;
+  const [start, end] = value;
+
+  const snap = (time: number) =>
+    Math.min(duration, Math.max(0, Math.round(time / frame) * frame));
+
+  const seek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  const handleRangeChange = ([nextStart, nextEnd]: number[]) => {
+    seek(nextStart !== start ? nextStart : nextEnd);
+    onChange([nextStart, nextEnd]);
+  };
+
+  const currentTime = () => snap(videoRef.current?.currentTime ?? 0);
+
+  const setIn = () => {
+    const time = currentTime();
+    if (time < end) onChange([time, end]);
+  };
+
+  const setOut = () => {
+    const time = currentTime();
+    if (time > start) onChange([start, time]);
+  };
+
+  const stepFrames = (frames: number) => {
+    videoRef.current?.pause();
+    seek(snap(currentTime() + frames * frame));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="aspect-video bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-[2px] overflow-hidden">
+        <video
+          ref={videoRef}
+          src={src}
+          controls
+          muted
+          playsInline
+          className="w-full h-full"
+        />
+      </div>
+
+      <Slider
+        value={[start, end]}
+        onValueChange={handleRangeChange}
+        min={0}
+        max={duration}
+        step={frame}
+        minStepsBetweenThumbs={1}
+        className="py-2 cursor-col-resize"
+      />
+
+      <div className="flex justify-between text-xs font-mono text-zinc-500 uppercase tracking-tight">
+        <span>In {formatTimecode(start)}</span>
+        <span className="text-zinc-900 dark:text-zinc-100 font-bold">
+          {formatTimecode(end - start)}
+        </span>
+        <span>Out {formatTimecode(end)}</span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => stepFrames(-1)}
+          className="font-mono text-xs h-9 border-2 rounded-[2px]"
+          title="Previous frame"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={setIn}
+          className="font-mono text-xs h-9 border-2 rounded-[2px] uppercase tracking-widest"
+        >
+          Set In
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([0, duration])}
+          disabled={start === 0 && end === duration}
+          className="font-mono text-xs h-9 border-2 rounded-[2px]"
+          title="Reset range"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={setOut}
+          className="font-mono text-xs h-9 border-2 rounded-[2px] uppercase tracking-widest"
+        >
+          Set Out
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => stepFrames(1)}
+          className="font-mono text-xs h-9 border-2 rounded-[2px]"
+          title="Next frame"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,73 @@
 "use client";
 
+import BatchQueue, { type BatchQueueItem } from "@/components/batch-queue";
+import TrimRange from "@/components/trim-range";
+import { getEncoderImpl, VIDEO_CODECS, type VideoCodecId } from "@/lib/codecs";
+import {
+  analyzeCompressibility,
+  AUDIO_BITRATE_STEPS_KBPS,
+  buildCompressionPlan,
+  BYTES_PER_MB,
+  DEFAULT_FPS,
+  DEFAULT_SEGMENT_SECONDS,
+  FPS_CAPS,
+  getClipDuration,
+  GIF_FPS,
+  GIF_MAX_WIDTH,
+  type AudioMode,
+  type AudioPlan,
+  type AudioSettings,
+  type CompressionInput,
+  type CompressionOptions,
+  type ResolutionPreset,
+  type ResolutionSettings,
+  type TrimSettings,
+} from "@/lib/compression-plan";
+import {
+  runCompressionPlan,
+  type RunCompressionPlanHandlers,
+} from "@/lib/compress-video";
+import {
+  cleanupFiles,
+  execOrThrow,
+  isFFmpegTerminatedError,
+  mountInputFile,
+  unmountInputFile,
+} from "@/lib/ffmpeg";
+import {
+  getDisplaySize,
+  probeMediaInfo,
+  type MediaInfo,
+} from "@/lib/media-info";
+import {
+  getAvailableFormats,
+  getCompatibleCodecs,
+  OUTPUT_FORMATS,
+  validateOutput,
+  type OutputFormat,
+  type OutputFormatId,
+  type OutputValidationIssue,
+} from "@/lib/formats";
+import {
+  classifyFFmpegFailure,
+  type FFmpegFailureKind,
+} from "@/lib/ffmpeg-log";
+import { useCompressionQueue } from "@/lib/hooks/useCompressionQueue";
 import { useFFmpeg } from "@/lib/hooks/useFFmpeg";
+import { isSaveFilePickerSupported, pickSaveFile } from "@/lib/save-file";
+import type { SegmentedProgress } from "@/lib/segmented-encode";
+import { createZipBlob, dedupeName, type ZipEntry } from "@/lib/zip";
 import { cn, formatBytes, formatTime, getVideoMetadata } from "@/lib/utils";
-import { fetchFile } from "@ffmpeg/util";
-import { useEffect, useMemo, useRef, useState } from "react";
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+import Image from "next/image";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 
 // UI Components
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -18,6 +82,9 @@ import { Slider } from "@/components/ui/slider";
 import {
   AlertCircle,
   ArrowRight,
+  Check,
+  CheckCircle2,
+  Copy,
   Download,
   FileVideo,
   Info,
@@ -28,110 +95,752 @@ import {
 } from "lucide-react";
 
 // Constants
-const HIGH_COMPRESSION_BPP_THRESHOLD = 0.06;
+const TARGET_SIZE_PRESETS_MB = [8, 25, 100];
+const QUALITY_SAMPLE_SECONDS = 4; // Sample length for CRF size estimates
+const MEMORY_WARNING_SHARE = 0.9; // Share of the wasm heap that triggers a warning
+
+// Actionable messages for failures recognised in the FFmpeg log
+const FAILURE_MESSAGES: Record<FFmpegFailureKind, string> = {
+  "unsupported-codec":
+    "This video uses a codec the in-browser engine cannot handle, or the selected encoder is unavailable. Try MP4 / H.264, or convert the file first.",
+  "out-of-memory":
+    "The browser ran out of memory. Lower the resolution, trim the clip, or enable Segmented Encoding for long videos.",
+  "missing-audio":
+    "The video has no audio track to process. Set Audio to Remove and try again.",
+  "corrupt-input":
+    "The file is damaged or incomplete (e.g. an interrupted recording is missing its moov atom). Re-export it from the source and try again.",
+  unknown:
+    "An error occurred during compression. Please try again or use another file.",
+};
+const subscribeNever = () => () => {}; // Browser capabilities don't change at runtime
+// Relative to the codec's default CRF (x264: 20 / 23 / 28)
+const CRF_PRESETS = [
+  { offset: -3, label: "High" },
+  { offset: 0, label: "Balanced" },
+  { offset: 5, label: "Small" },
+];
+const OUTPUT_ISSUE_MESSAGES: Record<OutputValidationIssue, string> = {
+  "codec-incompatible": "The selected codec cannot be stored in this format.",
+  "encoder-unavailable":
+    "The loaded engine has no encoder for this codec/format.",
+  "audio-encoder-unavailable":
+    "The loaded engine cannot encode audio for this format.",
+};
 
 // Types
-type AppStatus = "idle" | "ready" | "compressing" | "success" | "error";
+type AppStatus =
+  "idle" | "ready" | "compressing" | "success" | "error" | "batch";
 
 interface VideoFile {
   file: File;
   meta: {
     duration: number;
-    width: number;
+    width: number; // display size, rotation applied
     height: number;
   };
+  media: MediaInfo | null; // null when FFmpeg probing was unavailable or failed
 }
 
 interface ProcessResult {
+  blob: Blob;
   blobUrl: string;
   size: number;
   outputName: string;
   timeCost: number; // seconds
+  targetSize: number | null; // bytes, target-size mode only
+  savedAs: string | null; // file name when written straight to disk
+}
+
+type SizeMode = "ratio" | "target" | "quality";
+
+type QualitySettings = Extract<CompressionOptions, { sizeMode: "quality" }>;
+
+/** A finished output handed to the host app */
+export interface CompressedOutput {
+  blob: Blob;
+  name: string; // export filename
+  size: number; // bytes
+  mimeType: string;
+}
+
+export interface VideoCompressorProps {
+  /** Initial compression ratio in percent (1-100) */
+  defaultRatio?: number;
+  /** Output formats offered, first one selected by default */
+  allowedFormats?: OutputFormatId[];
+  /** Hard output size limit in MB; locks the widget to target-size mode */
+  maxSizeMB?: number;
+  /** Called for every finished file, single or batch */
+  onCompressed?: (output: CompressedOutput) => void;
+}
+
+interface BatchInput extends VideoFile {
+  exportName: string;
 }
 
 /**
- * Calculate video bitrate (kbps)
+ * Check file type by MIME or extension
  */
-function calculateBitrate(fileSize: number, duration: number): number {
-  if (duration <= 0) return 0;
-  return (fileSize * 8) / (duration * 1000);
+function isSupportedVideoFile(file: File): boolean {
+  return (
+    file.type.startsWith("video/") ||
+    /\.(mp4|mov|mkv|webm|avi)$/i.test(file.name)
+  );
 }
 
 /**
- * Check if video is already highly compressed (resolution aware)
+ * Default export filename for a compressed file
  */
-function isHighlyCompressed(
-  fileSize: number,
-  duration: number,
-  width: number,
-  height: number,
-): boolean {
-  if (duration <= 0 || width <= 0 || height <= 0) return false;
+function getExportName(file: File, extension = "mp4"): string {
+  return file.name.replace(/\.[^/.]+$/, "") + `-compressed.${extension}`;
+}
 
-  const bitrateKbps = calculateBitrate(fileSize, duration);
-  const pixels = width * height;
+/**
+ * Replace the extension of an export filename, keeping user edits to the base name
+ */
+function withExtension(name: string, extension: string): string {
+  return name.replace(/\.[^/.]+$/, "") + `.${extension}`;
+}
+
+/**
+ * Download name of a finished batch item. The output format may have changed
+ * since the file was queued, so the extension follows the actual output.
+ */
+function getBatchFileName(input: BatchInput, result: ProcessResult): string {
+  const extension = result.outputName.slice(
+    result.outputName.lastIndexOf(".") + 1,
+  );
+  return withExtension(input.exportName || "compressed", extension);
+}
 
-  // Estimate BPP (assuming 30 fps)
-  // BPP = (bitrate_bps) / (width * height * fps)
-  const estimatedBPP = (bitrateKbps * 1000) / (pixels * 30);
+/**
+ * Build ZIP entries for finished batch items plus a manifest.json
+ * listing original and compressed sizes.
+ */
+function buildBatchZipEntries(
+  items: { input: BatchInput; result: ProcessResult | null }[],
+): ZipEntry[] {
+  const done = items.filter(
+    (item): item is { input: BatchInput; result: ProcessResult } =>
+      item.result !== null,
+  );
+  // Resolve duplicate names up front so the manifest matches the archive
+  const usedNames = new Set(["manifest.json"]);
+  const names = done.map(({ input, result }) =>
+    dedupeName(getBatchFileName(input, result), usedNames),
+  );
+
+  const manifest = {
+    createdAt: new Date().toISOString(),
+    files: done.map(({ input, result }, index) => ({
+      name: names[index],
+      originalName: input.file.name,
+      originalSize: input.file.size,
+      compressedSize: result.size,
+      reduction: Number((1 - result.size / input.file.size).toFixed(4)),
+      timeCost: Number(result.timeCost.toFixed(2)),
+    })),
+  };
+
+  return [
+    ...done.map(({ result }, index) => ({
+      name: names[index],
+      data: result.blob,
+    })),
+    {
+      name: "manifest.json",
+      data: new Blob([JSON.stringify(manifest, null, 2)], {
+        type: "application/json",
+      }),
+    },
+  ];
+}
+
+/**
+ * Read duration and dimensions, preferring an FFmpeg probe (works for files
+ * the browser cannot decode) and falling back to the <video> element.
+ */
+async function readVideoFile(
+  file: File,
+  ffmpeg: FFmpeg | null,
+): Promise<VideoFile> {
+  let media: MediaInfo | null = null;
+  if (ffmpeg) {
+    try {
+      media = await probeMediaInfo(ffmpeg, file);
+    } catch (err) {
+      console.warn(err);
+    }
+  }
+
+  if (media?.video && media.duration > 0) {
+    return {
+      file,
+      meta: { duration: media.duration, ...getDisplaySize(media.video) },
+      media,
+    };
+  }
+  return { file, meta: await getVideoMetadata(file), media };
+}
+
+/**
+ * Planner input for a selected file
+ */
+function toCompressionInput(video: VideoFile): CompressionInput {
+  return { size: video.file.size, ...video.meta, media: video.media };
+}
+
+/**
+ * Trigger a browser download for a Blob URL
+ */
+function downloadBlobUrl(blobUrl: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = blobUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+/**
+ * Short audio summary, e.g. "AAC 96 kbps"
+ */
+function describeAudio(audio: AudioPlan, format: OutputFormat): string {
+  switch (audio.action) {
+    case "none":
+      return "none";
+    case "copy":
+      return audio.kbps !== null ? `copy ${audio.kbps} kbps` : "copy";
+    default:
+      return `${format.audio?.label} ${audio.kbps} kbps${audio.mono ? " mono" : ""}`;
+  }
+}
+
+/**
+ * Explain how the audio track will be handled, including automatic fallbacks
+ */
+function getAudioNote(
+  audio: AudioPlan,
+  format: OutputFormat,
+  video: VideoFile,
+): string {
+  const source = video.media?.audio?.codec ?? "source";
+  if (audio.action === "none") {
+    return video.media && !video.media.audio
+      ? "No audio track in the source"
+      : "Audio track will be removed";
+  }
+  if (audio.action === "copy") {
+    return `Copying ${source} audio without re-encoding`;
+  }
+  switch (audio.fallback) {
+    case "incompatible":
+      return `${source} audio can't be stored in ${format.label}; re-encoding to ${describeAudio(audio, format)}`;
+    case "lossless":
+      return `Lossless ${source} audio would waste space; re-encoding to ${describeAudio(audio, format)}`;
+    case "budget":
+      return `Re-encoding to ${describeAudio(audio, format)} to fit the size limit`;
+    default:
+      return `Re-encoding to ${describeAudio(audio, format)}`;
+  }
+}
+
+/**
+ * Estimate output size in quality (CRF) mode from a short sample encode
+ * taken from the middle of the clip, extrapolated to the clip duration.
+ */
+async function estimateQualitySize(
+  ffmpeg: FFmpeg,
+  video: VideoFile,
+  settings: QualitySettings,
+): Promise<number> {
+  const input = toCompressionInput(video);
+  const duration = getClipDuration(input, settings.trim);
+  const sampleDuration = Math.min(QUALITY_SAMPLE_SECONDS, duration);
+  const sampleStart =
+    (settings.trim?.start ?? 0) +
+    Math.max(0, duration / 2 - sampleDuration / 2);
+  // Same args as the real encode, trimmed to the sample window
+  const plan = buildCompressionPlan(input, {
+    ...settings,
+    trim: { start: sampleStart, end: sampleStart + sampleDuration },
+  });
+
+  try {
+    await mountInputFile(ffmpeg, video.file, plan.inputFile);
+    await execOrThrow(ffmpeg, plan.passes[0]);
+
+    const data = (await ffmpeg.readFile(plan.outputFile)) as Uint8Array;
+    if (sampleDuration <= 0) return data.byteLength;
+    return (data.byteLength / sampleDuration) * duration;
+  } finally {
+    await cleanupFiles(ffmpeg, plan.tempFiles);
+    await unmountInputFile(ffmpeg, plan.inputFile);
+  }
+}
+
+/**
+ * Whether a format can be offered under the host's restrictions.
+ * GIF has no rate control, so it cannot honour a size limit.
+ */
+function isFormatOffered(
+  id: OutputFormatId,
+  allowedFormats: OutputFormatId[] | undefined,
+  maxSizeMB: number | undefined,
+): boolean {
+  if (allowedFormats && !allowedFormats.includes(id)) return false;
+  return !(maxSizeMB && id === "gif");
+}
 
-  return estimatedBPP < HIGH_COMPRESSION_BPP_THRESHOLD;
+/**
+ * Compress a single video on the given FFmpeg instance.
+ * Runs the shared pipeline from the headless API: the input is mounted
+ * read-only (WORKERFS), a failing pass stops the job, and MEMFS is cleaned up
+ * afterwards. With a save handle the returned Blob is the disk-backed file.
+ */
+async function compressVideoFile(
+  ffmpeg: FFmpeg,
+  video: VideoFile,
+  settings: CompressionOptions,
+  handlers: Omit<RunCompressionPlanHandlers, "inputDuration"> = {},
+): Promise<Blob> {
+  const plan = buildCompressionPlan(toCompressionInput(video), settings);
+  return runCompressionPlan(ffmpeg, video.file, plan, {
+    ...handlers,
+    inputDuration: video.meta.duration,
+  });
 }
 
-export default function VideoCompressor() {
+export default function VideoCompressor({
+  defaultRatio = 70,
+  allowedFormats,
+  maxSizeMB,
+  onCompressed,
+}: VideoCompressorProps = {}) {
+  const initialFormat =
+    OUTPUT_FORMATS[
+      allowedFormats?.find((id) =>
+        isFormatOffered(id, allowedFormats, maxSizeMB),
+      ) ?? "mp4"
+    ];
+  const initialCodec = initialFormat.videoCodecs[0] ?? "h264";
+
   // --- Hooks & State ---
   const {
     ffmpeg,
     isLoaded,
     loadState,
+    loadProgress,
     progress: ffmpegProgress,
+    stats: ffmpegStats,
     clearProgress,
+    getLogs,
+    clearLogs,
+    cancel,
+    isRestarting,
+    getFFmpeg,
+    encoders,
+    heapLimit,
   } = useFFmpeg({
     autoLoad: true, // Auto load on mount
   });
 
   const [status, setStatus] = useState<AppStatus>("idle");
   const [video, setVideo] = useState<VideoFile | null>(null);
-  const [ratio, setRatio] = useState<number>(70); // Default to 70%
+  const [ratio, setRatio] = useState<number>(() =>
+    Math.min(100, Math.max(1, Math.round(defaultRatio))),
+  );
+  const [sizeMode, setSizeMode] = useState<SizeMode>(
+    maxSizeMB ? "target" : "ratio",
+  );
+  const [targetSizeMB, setTargetSizeMB] = useState<number>(maxSizeMB ?? 25);
+  const [twoPass, setTwoPass] = useState<boolean>(false);
+  const [saveToDisk, setSaveToDisk] = useState<boolean>(false);
+  const canSaveToDisk = useSyncExternalStore(
+    subscribeNever,
+    isSaveFilePickerSupported,
+    () => false,
+  );
+  const [audioMode, setAudioMode] = useState<AudioMode>("keep");
+  const [audioKbps, setAudioKbps] = useState<number>(
+    AUDIO_BITRATE_STEPS_KBPS[0],
+  );
+  const [formatId, setFormatId] = useState<OutputFormatId>(initialFormat.id);
+  const [codecId, setCodecId] = useState<VideoCodecId>(initialCodec);
+  const [crf, setCrf] = useState<number>(
+    VIDEO_CODECS[initialCodec].crf.default,
+  );
+  const [resolutionPreset, setResolutionPreset] =
+    useState<ResolutionPreset>("auto");
+  const [customWidth, setCustomWidth] = useState<number>(1280);
+  const [fpsCap, setFpsCap] = useState<number | null>(null);
+  const [segmented, setSegmented] = useState<boolean>(false);
+  const [segmentProgress, setSegmentProgress] =
+    useState<SegmentedProgress | null>(null);
+  // In/out points in seconds, null until the user moves them
+  const [trimRange, setTrimRange] = useState<[number, number] | null>(null);
+  const [qualityEstimate, setQualityEstimate] = useState<{
+    format: OutputFormatId;
+    codec: VideoCodecId;
+    audio: AudioSettings;
+    resolution: ResolutionSettings;
+    fpsCap: number | null;
+    crf: number;
+    size: number;
+  } | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  // Current encoding pass, used to combine per-exec progress into one bar
+  const [pass, setPass] = useState({ current: 1, total: 1 });
   const [result, setResult] = useState<ProcessResult | null>(null);
   const [errorMsg, setErrorMsg] = useState<string>("");
+  // Log of the failed job, offered for bug reports
+  const [errorLogs, setErrorLogs] = useState<string[]>([]);
+  const [logsCopied, setLogsCopied] = useState<boolean>(false);
   const startTimeRef = useRef<number>(0);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const [previewMode, setPreviewMode] = useState<"original" | "compressed">(
     "original",
   );
   const [exportName, setExportName] = useState<string>("");
+  const [isZipping, setIsZipping] = useState(false);
+  const [zipError, setZipError] = useState<string>("");
 
   // Compression session management: Generate unique ID for each compression to ensure progress data isolation
   const [compressionSessionId, setCompressionSessionId] = useState<
     string | null
   >(null);
+  // Mirrors the running session so async handlers can tell whether they were cancelled
+  const activeSessionRef = useRef<string | null>(null);
 
   // --- Effects ---
 
-  // Calculate current progress (use useMemo to avoid setting state in effect)
-  const currentProgress = useMemo(() => {
+  // Overall progress 0-1 (use useMemo to avoid setting state in effect)
+  const overallProgress = useMemo(() => {
     // Strict check: Must be in compressing state and have a valid session
-    if (status !== "compressing" || !compressionSessionId || !ffmpegProgress) {
-      return 0;
+    if (status !== "compressing" || !compressionSessionId || !video) {
+      return null;
+    }
+    // Segmented jobs aggregate progress across segments themselves
+    if (segmentProgress) return segmentProgress.progress;
+
+    // Progress of the current pass (range 0-1)
+    const clipLength = trimRange
+      ? trimRange[1] - trimRange[0]
+      : video.meta.duration;
+    let passFraction = 0;
+    if (ffmpegStats && clipLength > 0) {
+      // Prioritize the parsed log: output timestamps start at the trim point,
+      // and it keeps ticking where the progress event stalls (-c:a copy, scaling)
+      passFraction = Math.min(1, ffmpegStats.time / clipLength);
+    } else if (
+      ffmpegProgress &&
+      ffmpegProgress.progress > 0 &&
+      ffmpegProgress.progress <= 1
+    ) {
+      // Fallback: FFmpeg measures progress against the full input, so a
+      // trimmed clip ends early
+      passFraction = Math.min(
+        1,
+        (ffmpegProgress.progress * video.meta.duration) / clipLength,
+      );
     }
 
-    // Prioritize progress field (range 0-1)
-    if (ffmpegProgress.progress > 0 && ffmpegProgress.progress <= 1) {
-      const progressPercent = Math.round(ffmpegProgress.progress * 100);
-      return Math.min(99, progressPercent); // Limit max to 99%
+    // Combine passes: pass 1 of 2 covers 0-50%, pass 2 covers 50-100%
+    return (pass.current - 1 + passFraction) / pass.total;
+  }, [
+    status,
+    compressionSessionId,
+    segmentProgress,
+    ffmpegStats,
+    ffmpegProgress,
+    video,
+    trimRange,
+    pass,
+  ]);
+  // Limit max to 99% until the output has been read back
+  const currentProgress =
+    overallProgress === null
+      ? 0
+      : Math.min(99, Math.max(0, Math.round(overallProgress * 100)));
+
+  // Only formats and codecs the loaded core can encode are offered
+  const availableFormats = useMemo(
+    () =>
+      getAvailableFormats(encoders).filter((option) =>
+        isFormatOffered(option.id, allowedFormats, maxSizeMB),
+      ),
+    [encoders, allowedFormats, maxSizeMB],
+  );
+  const format = OUTPUT_FORMATS[formatId];
+  const compatibleCodecs = useMemo(
+    () => getCompatibleCodecs(format, encoders),
+    [format, encoders],
+  );
+  const codec = VIDEO_CODECS[codecId];
+  const encoder = getEncoderImpl(codec, encoders) ?? codec.encoders[0];
+  // Object URL of the selected file for the trim and comparison previews
+  const sourceUrl = useMemo(
+    () => (video ? URL.createObjectURL(video.file) : null),
+    [video],
+  );
+  // A range covering the whole video is not a trim
+  const trim = useMemo<TrimSettings | null>(() => {
+    if (!video || !trimRange) return null;
+    const [start, end] = trimRange;
+    return start > 0 || end < video.meta.duration ? { start, end } : null;
+  }, [video, trimRange]);
+
+  // Segmenting only pays off once the clip spans at least two segments
+  const clipDuration = trim
+    ? trim.end - trim.start
+    : (video?.meta.duration ?? 0);
+  const canSegment =
+    formatId !== "gif" && clipDuration >= DEFAULT_SEGMENT_SECONDS * 1.5;
+
+  const settings = useMemo<CompressionOptions>(() => {
+    const output = {
+      audio: { mode: audioMode, kbps: audioKbps },
+      format: formatId,
+      codec: codecId,
+      encoder,
+      trim,
+      resolution: { preset: resolutionPreset, customWidth },
+      fpsCap,
+      segmentSeconds: segmented && canSegment ? DEFAULT_SEGMENT_SECONDS : null,
+    };
+    // A host size limit always wins over the chosen mode
+    if (maxSizeMB) {
+      return {
+        sizeMode: "target",
+        targetSizeMB: Math.min(targetSizeMB, maxSizeMB),
+        twoPass,
+        ...output,
+      };
+    }
+    switch (sizeMode) {
+      case "target":
+        return { sizeMode, targetSizeMB, twoPass, ...output };
+      case "quality":
+        return { sizeMode, crf, twoPass: false, ...output };
+      default:
+        return { sizeMode, ratio, twoPass, ...output };
+    }
+  }, [
+    maxSizeMB,
+    sizeMode,
+    ratio,
+    targetSizeMB,
+    crf,
+    twoPass,
+    audioMode,
+    audioKbps,
+    formatId,
+    codecId,
+    encoder,
+    trim,
+    resolutionPreset,
+    customWidth,
+    fpsCap,
+    segmented,
+    canSegment,
+  ]);
+  const compressionPlan = useMemo(
+    () =>
+      video ? buildCompressionPlan(toCompressionInput(video), settings) : null,
+    [video, settings],
+  );
+  const plan = compressionPlan?.bitrate ?? null;
+
+  // Live encode speed, projected output size and time remaining
+  const liveStats = useMemo(() => {
+    if (overallProgress === null || !compressionPlan) return null;
+    const clipLength = compressionPlan.duration;
+    const passesPerClip = compressionPlan.segmented
+      ? (compressionPlan.segmented.segments[0]?.passes.length ?? 1)
+      : pass.total;
+    const speed = ffmpegStats?.speed || null;
+
+    // Every pass re-reads the whole clip, so the work left is measured in media
+    // seconds; fall back to elapsed time before FFmpeg reports a speed
+    let eta: number | null = null;
+    if (speed) {
+      eta = ((1 - overallProgress) * clipLength * passesPerClip) / speed;
+    } else if (overallProgress > 0.02) {
+      eta = (elapsedTime * (1 - overallProgress)) / overallProgress;
     }
 
-    // Fallback: Estimate progress based on time
-    if (ffmpegProgress.time > 0 && video?.meta.duration) {
-      const estimated = Math.round(
-        (ffmpegProgress.time / video.meta.duration) * 100,
-      );
-      return Math.min(99, Math.max(0, estimated));
+    // Extrapolate the bitrate written so far; earlier passes and palette
+    // generation don't write the real output
+    let projectedSize: number | null = null;
+    const isOutputPass =
+      compressionPlan.segmented || pass.current === pass.total;
+    if (
+      isOutputPass &&
+      ffmpegStats?.size &&
+      ffmpegStats.time >= 1 &&
+      clipLength > 0
+    ) {
+      projectedSize = (ffmpegStats.size / ffmpegStats.time) * clipLength;
     }
 
-    return 0;
-  }, [status, compressionSessionId, ffmpegProgress, video]);
+    return { speed, eta, projectedSize };
+  }, [overallProgress, compressionPlan, ffmpegStats, pass, elapsedTime]);
+  // Audio handling as it will actually run (after fallbacks and budgeting)
+  const audioPlan = compressionPlan?.audio ?? null;
+  const outputIssue = validateOutput(
+    format,
+    codecId,
+    encoders,
+    audioPlan?.action === "encode",
+  );
+  // Dimensions and frame rate the encode will produce, previewed before starting
+  const outputSize = compressionPlan?.output ?? null;
+  const outputFps = compressionPlan?.output.fps ?? null;
+  // Preflight: the output and codec buffers must fit in the core's wasm heap
+  const memoryRisk =
+    compressionPlan !== null &&
+    heapLimit !== null &&
+    compressionPlan.estimatedMemory > heapLimit * MEMORY_WARNING_SHARE;
+
+  // Batch items use the current output settings; trimming and segmenting are
+  // chosen per clip, so they only apply to single files
+  const batchSettings = useMemo<CompressionOptions>(
+    () => ({ ...settings, trim: null, segmentSeconds: null }),
+    [settings],
+  );
+
+  // Batch queue: items are processed one by one on the shared FFmpeg instance
+  const processBatchItem = useCallback(
+    async (input: BatchInput): Promise<ProcessResult> => {
+      // Read the live instance: it is replaced after a skip
+      const instance = getFFmpeg();
+      if (!instance) throw new Error("Engine is not ready");
+
+      clearProgress();
+      clearLogs();
+      const startedAt = Date.now();
+      const { extension, mimeType } = OUTPUT_FORMATS[batchSettings.format];
+      try {
+        const blob = await compressVideoFile(instance, input, batchSettings, {
+          onPass: (current, total) => {
+            // Each exec reports its own 0-1 progress, reset it between passes
+            clearProgress();
+            setPass({ current, total });
+          },
+        });
+        const result: ProcessResult = {
+          blob,
+          blobUrl: URL.createObjectURL(blob),
+          size: blob.size,
+          outputName: `output.${extension}`,
+          timeCost: (Date.now() - startedAt) / 1000,
+          targetSize:
+            batchSettings.sizeMode === "target"
+              ? batchSettings.targetSizeMB * BYTES_PER_MB
+              : null,
+          savedAs: null,
+        };
+        onCompressed?.({
+          blob,
+          name: getBatchFileName(input, result),
+          size: blob.size,
+          mimeType,
+        });
+        return result;
+      } catch (err) {
+        if (isFFmpegTerminatedError(err)) throw new Error("Cancelled");
+        console.error(err);
+        const { kind } = classifyFFmpegFailure(getLogs(), err);
+        throw new Error(
+          kind === "unknown" ? "Compression failed" : FAILURE_MESSAGES[kind],
+        );
+      }
+    },
+    [getFFmpeg, clearProgress, clearLogs, getLogs, batchSettings, onCompressed],
+  );
+  const disposeBatchItem = useCallback(
+    (item: { result: ProcessResult | null }) => {
+      if (item.result) URL.revokeObjectURL(item.result.blobUrl);
+    },
+    [],
+  );
+  const queue = useCompressionQueue<BatchInput, ProcessResult>({
+    process: processBatchItem,
+    onDispose: disposeBatchItem,
+  });
+
+  // Progress of the active batch item, from the parsed log like single files
+  const batchProgress = useMemo(() => {
+    const active = queue.items.find((item) => item.id === queue.activeId);
+    if (!active) return 0;
+
+    const duration = active.input.meta.duration;
+    let passFraction = 0;
+    if (ffmpegStats && duration > 0) {
+      passFraction = Math.min(1, ffmpegStats.time / duration);
+    } else if (
+      ffmpegProgress &&
+      ffmpegProgress.progress > 0 &&
+      ffmpegProgress.progress <= 1
+    ) {
+      passFraction = ffmpegProgress.progress;
+    }
+    const overall = (pass.current - 1 + passFraction) / pass.total;
+    return Math.min(99, Math.max(0, Math.round(overall * 100)));
+  }, [queue.items, queue.activeId, ffmpegStats, ffmpegProgress, pass]);
+
+  // Preflight for queued items, same estimate as the single-file warning
+  const batchWarnings = useMemo(() => {
+    const warnings: Record<string, string> = {};
+    if (heapLimit === null) return warnings;
+    for (const item of queue.items) {
+      if (item.status !== "pending" || item.input.meta.duration <= 0) continue;
+      const { estimatedMemory } = buildCompressionPlan(
+        toCompressionInput(item.input),
+        batchSettings,
+      );
+      if (estimatedMemory > heapLimit * MEMORY_WARNING_SHARE) {
+        warnings[item.id] =
+          `May run out of memory (~${formatBytes(estimatedMemory)} needed)`;
+      }
+    }
+    return warnings;
+  }, [queue.items, batchSettings, heapLimit]);
+
+  // Output settings applied to batch items, shown in the queue
+  const batchSummary = [
+    format.label,
+    ...(formatId === "gif" ? [] : [codec.label]),
+    batchSettings.sizeMode === "target"
+      ? `≤ ${batchSettings.targetSizeMB} MB`
+      : batchSettings.sizeMode === "quality"
+        ? `CRF ${batchSettings.crf}`
+        : `${batchSettings.ratio}%`,
+  ].join(" · ");
+  const analysis = useMemo(
+    () =>
+      video ? analyzeCompressibility(toCompressionInput(video), codecId) : null,
+    [video, codecId],
+  );
+  // Only show an estimate that was sampled with the current settings
+  const qualityEstimateSize =
+    qualityEstimate?.crf === crf &&
+    qualityEstimate.format === formatId &&
+    qualityEstimate.codec === codecId &&
+    qualityEstimate.audio.mode === audioMode &&
+    qualityEstimate.audio.kbps === audioKbps &&
+    qualityEstimate.resolution.preset === resolutionPreset &&
+    qualityEstimate.resolution.customWidth === customWidth &&
+    qualityEstimate.fpsCap === fpsCap
+      ? qualityEstimate.size
+      : null;
+
+  // Release the source preview URL when the file changes
+  useEffect(() => {
+    return () => {
+      if (sourceUrl) URL.revokeObjectURL(sourceUrl);
+    };
+  }, [sourceUrl]);
 
   // Timer: Update elapsed time
   useEffect(() => {
@@ -147,20 +856,31 @@ export default function VideoCompressor() {
   // --- Handlers ---
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+
+    // Multiple files: switch to batch queue
+    if (files.length > 1) {
+      await addBatchFiles(files);
+      setStatus("batch");
+      return;
+    }
+    const file = files[0];
 
     // Reset state
     setErrorMsg("");
+    setErrorLogs([]);
+    setLogsCopied(false);
     setResult(null);
+    setQualityEstimate(null);
+    setTrimRange(null);
     setPreviewMode("original");
     setElapsedTime(0); // Reset elapsed time
 
     // Validation (Type)
-    if (
-      !file.type.startsWith("video/") &&
-      !file.name.match(/\.(mp4|mov|mkv|webm|avi)$/i)
-    ) {
+    if (!isSupportedVideoFile(file)) {
+      // Drop the previous file so its details don't show next to this error
+      setVideo(null);
       setErrorMsg(
         "Unsupported file format. Please select a video file (MP4, MOV, MKV, etc.)",
       );
@@ -168,150 +888,222 @@ export default function VideoCompressor() {
       return;
     }
 
+    clearLogs();
     try {
-      const meta = await getVideoMetadata(file);
-      setVideo({ file, meta });
-      setExportName(file.name.replace(/\.[^/.]+$/, "") + "-compressed.mp4");
+      setVideo(await readVideoFile(file, getFFmpeg()));
+      setExportName(getExportName(file, format.extension));
       setStatus("ready");
-    } catch {
+    } catch (err) {
+      // The probe log usually says why the browser could not read the file
+      const logs = getLogs();
+      const { kind } = classifyFFmpegFailure(logs, err);
+      setVideo(null);
       setErrorMsg(
-        "Unable to read video information. The file may be corrupted.",
+        kind === "unknown"
+          ? "Unable to read video information. The file may be corrupted."
+          : FAILURE_MESSAGES[kind],
       );
+      setErrorLogs(logs);
       setStatus("error");
     }
   };
 
-  const cancelCompression = () => {
-    // Only terminate if strictly necessary, actually `ffmpeg.terminate()` cleans everything.
-    // Ideally useFFmpeg hook gives us a `reset` or we just reload the page/worker.
-    // For MVP, window.location.reload() is brutal.
-    // Better: prompt FFmpeg to stop. FFmpeg.wasm terminate method is best.
-    // Our hook `reset` does terminate.
-    // But we need to reload FFmpeg core if we want to compress again!
-    // So 'reset' in useFFmpeg re-sets to idle.
+  /**
+   * Read metadata and add files to the batch queue.
+   * Unreadable files are added as failed items so the user can see why.
+   */
+  const addBatchFiles = async (files: File[]) => {
+    // Probing needs the engine to itself: skip it while an item is encoding
+    const instance = queue.isRunning ? null : getFFmpeg();
+    const entries: Parameters<typeof queue.add>[0] = [];
+
+    // Sequential: probes share one FFmpeg instance and its log stream
+    for (const file of files) {
+      const input: BatchInput = {
+        file,
+        meta: { duration: 0, width: 0, height: 0 },
+        media: null,
+        exportName: getExportName(file, format.extension),
+      };
+      if (!isSupportedVideoFile(file)) {
+        entries.push({
+          input,
+          initial: { status: "error", error: "Unsupported format" },
+        });
+        continue;
+      }
+      try {
+        entries.push({
+          input: { ...input, ...(await readVideoFile(file, instance)) },
+        });
+      } catch {
+        entries.push({
+          input,
+          initial: {
+            status: "error",
+            error: "Unable to read video information",
+          },
+        });
+      }
+    }
+    queue.add(entries);
+  };
+
+  /**
+   * Abort the active batch item and continue with the next one
+   */
+  const skipBatchItem = async () => {
+    const wasPaused = queue.isPaused;
+    queue.pause();
+    await cancel();
+    if (!wasPaused) queue.start();
+  };
+
+  const handleBatchZipDownload = async () => {
+    setIsZipping(true);
+    setZipError("");
+    try {
+      const zip = await createZipBlob(buildBatchZipEntries(queue.items));
+      const zipUrl = URL.createObjectURL(zip);
+      downloadBlobUrl(zipUrl, "compressed-videos.zip");
+      // Give the browser a moment to start the download before releasing the URL
+      setTimeout(() => URL.revokeObjectURL(zipUrl), 10000);
+    } catch (err) {
+      console.error(err);
+      setZipError(
+        "Unable to build the ZIP archive. Archives over 4 GB are not supported, please download files individually.",
+      );
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const closeBatch = () => {
+    queue.clear();
+    setStatus("idle");
+  };
+
+  /**
+   * Run a short sample encode to estimate the CRF output size
+   */
+  const handleEstimate = async () => {
+    if (!video || !ffmpeg || !isLoaded || settings.sizeMode !== "quality") {
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      const size = await estimateQualitySize(ffmpeg, video, settings);
+      setQualityEstimate({
+        format: formatId,
+        codec: codecId,
+        audio: settings.audio,
+        resolution: settings.resolution,
+        fpsCap,
+        crf,
+        size,
+      });
+    } catch (err) {
+      console.error(err);
+      setQualityEstimate(null);
+    } finally {
+      // The sample encode reports progress too, don't leak it into the next job
+      clearProgress();
+      setIsEstimating(false);
+    }
+  };
+
+  /**
+   * Update the in/out points; a sampled estimate no longer matches the clip
+   */
+  const handleTrimChange = (range: [number, number]) => {
+    setTrimRange(range);
+    setQualityEstimate(null);
+  };
+
+  /**
+   * Switch output codec; CRF scales differ per encoder, so reset to its default
+   */
+  const selectCodec = (id: VideoCodecId) => {
+    setCodecId(id);
+    setCrf(VIDEO_CODECS[id].crf.default);
+  };
+
+  /**
+   * Switch output format, keeping the codec when the container can hold it
+   */
+  const selectFormat = (id: OutputFormatId) => {
+    const next = OUTPUT_FORMATS[id];
+    setFormatId(id);
+    setExportName((name) => withExtension(name, next.extension));
+
+    const codecs = getCompatibleCodecs(next, encoders);
+    if (codecs.length > 0 && !codecs.includes(codecId)) {
+      selectCodec(codecs[0]);
+    }
+  };
 
-    // Let's assume we can re-use or re-load.
+  const cancelCompression = async () => {
+    // Detach the running session first so its pending exec rejection is ignored
+    activeSessionRef.current = null;
+    setCompressionSessionId(null);
+    clearProgress();
+    setSegmentProgress(null);
+    setElapsedTime(0);
     setStatus("ready");
-    // We should probably abort execution.
-    // Since ffmpeg.exec awaits, we can't easily cancel it from JS side without terminating worker.
-    // So we'll force reload FFmpeg by calling terminate via our hook if implemented?
-    // Let's rely on status change for UI, but worker might still be crunching.
-    // To properly cancel, we MUST terminate the worker.
-    // Assuming useFFmpeg doesn't export terminate directly but `reset` does.
-    // We'll call a reload logic if implemented, or just ignore result.
-    // Implementation Detail: terminate() is the only way to stop a running exec.
+
+    // terminate() is the only way to stop a running exec; the hook then reloads
+    // a fresh instance from the already downloaded core
+    await cancel();
   };
 
   const startCompression = async () => {
-    if (!video || !ffmpeg || !isLoaded) return;
+    if (!video || !ffmpeg || !isLoaded || outputIssue) return;
+
+    // The picker needs the click gesture, so ask before encoding starts
+    let saveTo: FileSystemFileHandle | null = null;
+    if (saveToDisk && canSaveToDisk) {
+      try {
+        saveTo = await pickSaveFile(
+          exportName || `compressed.${format.extension}`,
+          format.mimeType,
+          format.extension,
+        );
+        if (!saveTo) return; // Picker dismissed, stay on the settings screen
+      } catch (err) {
+        // Picker refused; keep the result in memory and download it instead
+        console.error(err);
+      }
+    }
 
     // Generate new compression session ID
     const sessionId = `compression-${Date.now()}-${Math.random()}`;
+    activeSessionRef.current = sessionId;
     setCompressionSessionId(sessionId);
 
     // Strictly clear all states
     clearProgress(); // Clear FFmpeg progress
+    clearLogs(); // Keep only this job's log
+    setSegmentProgress(null);
 
     setElapsedTime(0); // Reset elapsed time
     startTimeRef.current = Date.now(); // Record start time
     setStatus("compressing");
 
     try {
-      // 1. Write file
-      await ffmpeg.writeFile("input.mp4", await fetchFile(video.file));
-
-      // 2. Calculate Target Bitrate (Bitrate Mode for precise size control)
-      const duration = video.meta.duration;
-      const originalSize = video.file.size; // in bytes
-
-      /**
-       * Target size control principle:
-       * 1. Calculate target total size (bits) = original size * 8 * ratio
-       * 2. Calculate target total bitrate (bps) = target total size / duration
-       * 3. Allocate to video bitrate = total bitrate * 0.9 (Reserve 10% for audio and container overhead)
-       */
-      const targetTotalBitrateBps =
-        (originalSize * 8 * (ratio / 100)) / duration;
-      const videoBitrateKbps = Math.floor((targetTotalBitrateBps * 0.9) / 1000);
-
-      /**
-       * Dynamic bitrate cap strategy: Adjust max allowed bitrate based on video duration
-       * - Short video (<=30s): Allow high bitrate for precise size control
-       * - Medium video (<=2m): Medium bitrate to balance quality and performance
-       * - Long video (<=5m): Limit bitrate to ensure performance
-       * - Ultra-long video (>5m): Strictly limit to avoid browser lag
-       */
-      const getMaxBitrate = (duration: number): number => {
-        if (duration <= 30) return 30000; // Within 30 seconds: 30 Mbps
-        if (duration <= 120) return 20000; // Within 2 minutes: 20 Mbps
-        if (duration <= 300) return 10000; // Within 5 minutes: 10 Mbps
-        return 5000; // Long video: 5 Mbps
-      };
-
-      // Fallback: Bitrate cannot be too low (at least 100kbps), upper limit dynamically adjusted based on duration
-      const maxBitrate = getMaxBitrate(duration);
-      const finalBitrate = Math.max(
-        100,
-        Math.min(maxBitrate, videoBitrateKbps),
-      );
-
-      // Scale strategy
-      // D5: >= 60% keep. 40-60% max 1920. <40% max 1280.
-      const { width, height } = video.meta;
-      const maxDim = Math.max(width, height);
-      let scaleFilter = "";
-
-      if (ratio < 40 && maxDim > 1280) {
-        scaleFilter = "scale='if(gt(iw,ih),1280,-2):if(gt(ih,iw),1280,-2)'";
-      } else if (ratio < 60 && maxDim > 1920) {
-        scaleFilter = "scale='if(gt(iw,ih),1920,-2):if(gt(ih,iw),1920,-2)'";
-      }
-
-      // Build args
-      const args = [
-        "-i",
-        "input.mp4",
-        "-c:v",
-        "libx264",
-        "-b:v",
-        `${finalBitrate}k`,
-        "-bufsize",
-        `${finalBitrate * 2}k`, // Buffer for bitrate control
-        "-maxrate",
-        `${Math.floor(finalBitrate * 1.2)}k`, // Max peak bitrate
-        "-preset",
-        "ultrafast",
-        "-pix_fmt",
-        "yuv420p",
-        "-threads",
-        "4",
-        "-max_muxing_queue_size",
-        "1024",
-        "-c:a",
-        "copy",
-      ];
-
-      if (scaleFilter) {
-        args.push("-vf", scaleFilter);
-      }
-
-      args.push("output.mp4");
-
-      // 3. Exec
-      await ffmpeg.exec(args);
-
-      // 4. Read result
-      // Check if output exists (exec might fail silently or just log error)
-      // We assume success if no throw.
-      const data = (await ffmpeg.readFile("output.mp4")) as Uint8Array;
-      // Handle potential SharedArrayBuffer (Blobs don't support it)
-      let blobData: Uint8Array = data;
-      if (data.buffer instanceof SharedArrayBuffer) {
-        blobData = new Uint8Array(data); // This creates a copy on the heap
-      }
-      // Create Blob
-      const blob = new Blob([blobData as unknown as BlobPart], {
-        type: "video/mp4",
+      const blob = await compressVideoFile(ffmpeg, video, settings, {
+        onPass: (current, total) => {
+          // Each exec reports its own 0-1 progress, reset it between passes
+          clearProgress();
+          setPass({ current, total });
+        },
+        onSegment: (progress) => {
+          // Ignore late events from a cancelled session
+          if (activeSessionRef.current === sessionId) {
+            setSegmentProgress(progress);
+          }
+        },
+        saveTo,
       });
       const blobUrl = URL.createObjectURL(blob);
 
@@ -319,37 +1111,77 @@ export default function VideoCompressor() {
       const finalTimeCost = (Date.now() - startTimeRef.current) / 1000;
 
       setResult({
+        blob,
         blobUrl,
         size: blob.size,
-        outputName: "output.mp4",
+        outputName: `output.${format.extension}`,
         timeCost: finalTimeCost,
+        targetSize:
+          settings.sizeMode === "target"
+            ? settings.targetSizeMB * BYTES_PER_MB
+            : null,
+        savedAs: saveTo?.name ?? null,
+      });
+
+      onCompressed?.({
+        blob,
+        name: saveTo?.name ?? (exportName || `compressed.${format.extension}`),
+        size: blob.size,
+        mimeType: format.mimeType,
       });
 
       // Compression success: Clear session and progress data
+      activeSessionRef.current = null;
       setCompressionSessionId(null);
       clearProgress();
+      setSegmentProgress(null);
       setStatus("success");
       setPreviewMode("compressed"); // Auto switch to result
     } catch (err) {
+      // Cancelled: the UI has already been reset by cancelCompression
+      if (
+        activeSessionRef.current !== sessionId ||
+        isFFmpegTerminatedError(err)
+      ) {
+        return;
+      }
+
       console.error(err);
       // Compression failed: Clear session and progress data
+      activeSessionRef.current = null;
       setCompressionSessionId(null);
       clearProgress();
-      setErrorMsg(
-        "An error occurred during compression. Please try again or use another file.",
-      );
+      setSegmentProgress(null);
+      const logs = getLogs();
+      setErrorMsg(FAILURE_MESSAGES[classifyFFmpegFailure(logs, err).kind]);
+      setErrorLogs(logs);
+      setLogsCopied(false);
       setStatus("error");
     }
   };
 
+  const copyErrorLogs = async () => {
+    try {
+      await navigator.clipboard.writeText(errorLogs.join("\n"));
+      setLogsCopied(true);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   const handleDownload = () => {
     if (!result) return;
-    const a = document.createElement("a");
-    a.href = result.blobUrl;
-    a.download = exportName || "compressed.mp4";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    downloadBlobUrl(result.blobUrl, exportName || "compressed.mp4");
+  };
+
+  const handleBatchDownload = (item: BatchQueueItem) => {
+    // The queue view only sees the display fields, look up the full item
+    const queued = queue.items.find(({ id }) => id === item.id);
+    if (!queued?.result) return;
+    downloadBlobUrl(
+      queued.result.blobUrl,
+      getBatchFileName(queued.input, queued.result),
+    );
   };
 
   /**
@@ -361,6 +1193,17 @@ export default function VideoCompressor() {
   // --- Renderers ---
 
   if (loadState.status === "loading") {
+    const loadPercent =
+      loadProgress !== null ? Math.round(loadProgress * 100) : null;
+    const receivedBytes = (loadState.assets ?? []).reduce(
+      (sum, asset) => sum + asset.received,
+      0,
+    );
+    const totalBytes = (loadState.assets ?? []).reduce(
+      (sum, asset) => sum + asset.total,
+      0,
+    );
+
     return (
       <div className="flex h-[50vh] flex-col items-center justify-center gap-4 text-center">
         <Loader2 className="h-10 w-10 animate-spin text-orange-600" />
@@ -370,6 +1213,30 @@ export default function VideoCompressor() {
             First load may take a few seconds
           </p>
         </div>
+        {receivedBytes > 0 && (
+          <div className="w-full max-w-sm space-y-2">
+            <div className="h-2 w-full bg-zinc-100 dark:bg-zinc-800 rounded-[1px] overflow-hidden border border-zinc-200 dark:border-zinc-700">
+              <div
+                className={cn(
+                  "h-full bg-orange-600 transition-all duration-300 ease-out",
+                  loadPercent === null && "w-1/3 animate-pulse",
+                )}
+                style={
+                  loadPercent !== null
+                    ? { width: `${loadPercent}%` }
+                    : undefined
+                }
+              />
+            </div>
+            <div className="flex justify-between text-xs font-mono text-zinc-400">
+              <span>
+                {formatBytes(receivedBytes)}
+                {loadPercent !== null && ` / ${formatBytes(totalBytes)}`}
+              </span>
+              {loadPercent !== null && <span>{loadPercent}%</span>}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
@@ -401,6 +1268,7 @@ export default function VideoCompressor() {
               {/* Clickable Area Overlay */}
               <input
                 type="file"
+                multiple
                 accept="video/*,.mp4,.mov,.mkv,.webm,.avi"
                 onChange={handleFileSelect}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-50"
@@ -421,7 +1289,7 @@ export default function VideoCompressor() {
               <p className="text-zinc-500 text-sm mb-8 max-w-xs font-mono uppercase tracking-wide">
                 OR CLICK TO BROWSE <br />
                 <span className="text-xs opacity-50 lowercase normal-case font-sans block mt-2">
-                  MP4, MOV, MKV Supported
+                  MP4, MOV, MKV Supported · Select several for batch mode
                 </span>
               </p>
 
@@ -435,8 +1303,38 @@ export default function VideoCompressor() {
             </div>
           )}
 
+          {/* Batch Queue */}
+          {status === "batch" && (
+            <BatchQueue
+              items={queue.items}
+              activeId={queue.activeId}
+              activeProgress={batchProgress}
+              isRunning={queue.isRunning}
+              isPaused={queue.isPaused}
+              isRestarting={isRestarting}
+              ratio={batchSettings.sizeMode === "ratio" ? ratio : null}
+              onRatioChange={setRatio}
+              settingsSummary={batchSummary}
+              warnings={batchWarnings}
+              onStart={queue.start}
+              onPause={queue.pause}
+              onSkip={skipBatchItem}
+              onRetry={queue.retry}
+              onRemove={queue.remove}
+              onExportNameChange={(id, name) =>
+                queue.updateInput(id, { exportName: name })
+              }
+              onDownload={handleBatchDownload}
+              isZipping={isZipping}
+              zipError={zipError}
+              onDownloadAll={handleBatchZipDownload}
+              onAddFiles={addBatchFiles}
+              onClose={closeBatch}
+            />
+          )}
+
           {/* S1 & S2 & S4: Workspace */}
-          {status !== "idle" && video && (
+          {status !== "idle" && status !== "batch" && video && (
             <div className="flex flex-col">
               {/* File Info Bar */}
               <div className="bg-zinc-100/50 dark:bg-zinc-950/30 border-b border-zinc-200 dark:border-zinc-800 p-6 flex items-start justify-between gap-4">
@@ -461,6 +1359,16 @@ export default function VideoCompressor() {
                       </span>
                       <span>|</span>
                       <span>{formatTime(video.meta.duration)}</span>
+                      {video.media?.video && (
+                        <>
+                          <span>|</span>
+                          <span>
+                            {video.media.video.codec}
+                            {video.media.video.fps !== null &&
+                              ` · ${Math.round(video.media.video.fps * 100) / 100} fps`}
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -497,87 +1405,617 @@ export default function VideoCompressor() {
                         Est. Output
                       </Label>
                       <div className="font-mono text-2xl font-bold text-indigo-600 dark:text-indigo-400">
-                        ~{formatBytes(video.file.size * (ratio / 100))}
+                        {formatId === "gif"
+                          ? "—"
+                          : sizeMode === "quality"
+                            ? qualityEstimateSize !== null
+                              ? `~${formatBytes(qualityEstimateSize)}`
+                              : "—"
+                            : `${sizeMode === "target" ? "≤" : "~"}${formatBytes(plan?.expectedSize ?? 0)}`}
                       </div>
                     </div>
                   </div>
 
-                  <div className="space-y-6">
-                    <div className="flex justify-between items-end">
+                  {/* Trim: frame-accurate in/out points */}
+                  {sourceUrl && video.meta.duration > 0 && (
+                    <div className="space-y-3">
                       <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
-                        Compression Level
+                        Trim
                       </Label>
-                      <span className="font-mono text-4xl font-bold text-zinc-900 dark:text-zinc-100 tracking-tighter">
-                        {ratio}
-                        <span className="text-lg text-zinc-400 align-top ml-1">
-                          %
-                        </span>
-                      </span>
+                      <TrimRange
+                        src={sourceUrl}
+                        duration={video.meta.duration}
+                        fps={video.media?.video?.fps ?? DEFAULT_FPS}
+                        value={trimRange ?? [0, video.meta.duration]}
+                        onChange={handleTrimChange}
+                      />
                     </div>
+                  )}
 
-                    <Slider
-                      value={[ratio]}
-                      onValueChange={(v) => setRatio(v[0])}
-                      min={1}
-                      max={100}
-                      step={1}
-                      className="py-2 cursor-col-resize"
-                    />
-
-                    <div className="grid grid-cols-4 gap-2">
-                      {[30, 50, 70, 90].map((p) => (
+                  {/* Output Format & Codec (only what the loaded core can encode) */}
+                  <div className="space-y-3">
+                    <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                      Output Format
+                    </Label>
+                    <div className="flex gap-2">
+                      {availableFormats.map((option) => (
                         <Button
-                          key={p}
+                          key={option.id}
                           variant="outline"
                           size="sm"
-                          onClick={() => setRatio(p)}
+                          onClick={() => selectFormat(option.id)}
                           className={cn(
-                            "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
-                            ratio === p
+                            "flex-1 font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                            formatId === option.id
                               ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
                               : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
                           )}
                         >
-                          {p}%
+                          {option.label}
                         </Button>
                       ))}
                     </div>
+                    {compatibleCodecs.length > 1 && (
+                      <div className="flex gap-2">
+                        {compatibleCodecs.map((id) => (
+                          <Button
+                            key={id}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => selectCodec(id)}
+                            className={cn(
+                              "flex-1 font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                              codecId === id
+                                ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                            )}
+                          >
+                            {VIDEO_CODECS[id].label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
-                  {/* Low bitrate warning */}
-                  {isHighlyCompressed(
-                    video.file.size,
-                    video.meta.duration,
-                    video.meta.width,
-                    video.meta.height,
-                  ) && (
+                  {formatId === "gif" ? (
+                    <p className="text-xs font-mono text-zinc-400">
+                      Animated GIF: {GIF_FPS} fps, up to {GIF_MAX_WIDTH}px wide,
+                      no audio. Best for short clips.
+                    </p>
+                  ) : (
+                    <div className="space-y-6">
+                      {/* Size Mode Toggle (a host size limit forces target size) */}
+                      <div
+                        className={cn(
+                          "grid grid-cols-3 gap-2",
+                          maxSizeMB && "hidden",
+                        )}
+                      >
+                        {(
+                          [
+                            ["ratio", "Percentage"],
+                            ["target", "Target Size"],
+                            ["quality", "Quality"],
+                          ] as const
+                        ).map(([mode, label]) => (
+                          <Button
+                            key={mode}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSizeMode(mode)}
+                            className={cn(
+                              "font-mono text-xs h-9 border-2 rounded-[2px] uppercase tracking-widest transition-all",
+                              sizeMode === mode
+                                ? "border-orange-600 text-orange-600"
+                                : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                            )}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+
+                      {sizeMode === "ratio" && (
+                        <>
+                          <div className="flex justify-between items-end">
+                            <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                              Compression Level
+                            </Label>
+                            <span className="font-mono text-4xl font-bold text-zinc-900 dark:text-zinc-100 tracking-tighter">
+                              {ratio}
+                              <span className="text-lg text-zinc-400 align-top ml-1">
+                                %
+                              </span>
+                            </span>
+                          </div>
+
+                          <Slider
+                            value={[ratio]}
+                            onValueChange={(v) => setRatio(v[0])}
+                            min={1}
+                            max={100}
+                            step={1}
+                            className="py-2 cursor-col-resize"
+                          />
+
+                          <div className="grid grid-cols-4 gap-2">
+                            {[30, 50, 70, 90].map((p) => (
+                              <Button
+                                key={p}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setRatio(p)}
+                                className={cn(
+                                  "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                                  ratio === p
+                                    ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                    : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                                )}
+                              >
+                                {p}%
+                              </Button>
+                            ))}
+                          </div>
+                        </>
+                      )}
+
+                      {sizeMode === "target" && (
+                        <>
+                          <div className="flex justify-between items-end gap-4">
+                            <Label
+                              htmlFor="target-size"
+                              className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300"
+                            >
+                              Max Output Size
+                            </Label>
+                            <div className="flex items-baseline gap-2">
+                              <Input
+                                id="target-size"
+                                type="number"
+                                min={1}
+                                step={1}
+                                value={targetSizeMB}
+                                onChange={(e) =>
+                                  setTargetSizeMB(
+                                    Math.min(
+                                      maxSizeMB ?? Infinity,
+                                      Math.max(1, Number(e.target.value) || 1),
+                                    ),
+                                  )
+                                }
+                                className="font-mono text-3xl font-bold h-14 w-32 text-right border-2 rounded-[2px] focus-visible:ring-0 focus-visible:border-orange-500"
+                              />
+                              <span className="text-lg text-zinc-400">MB</span>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-3 gap-2">
+                            {TARGET_SIZE_PRESETS_MB.filter(
+                              (mb) => !maxSizeMB || mb <= maxSizeMB,
+                            ).map((mb) => (
+                              <Button
+                                key={mb}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setTargetSizeMB(mb)}
+                                className={cn(
+                                  "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                                  targetSizeMB === mb
+                                    ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                    : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                                )}
+                              >
+                                {mb} MB
+                              </Button>
+                            ))}
+                          </div>
+
+                          {plan && (
+                            <p className="text-xs font-mono text-zinc-400">
+                              Video {plan.videoKbps} kbps · Audio{" "}
+                              {describeAudio(plan.audio, format)}
+                            </p>
+                          )}
+                        </>
+                      )}
+
+                      {sizeMode === "quality" && (
+                        <>
+                          <div className="flex justify-between items-end">
+                            <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                              Quality (CRF)
+                            </Label>
+                            <span className="font-mono text-4xl font-bold text-zinc-900 dark:text-zinc-100 tracking-tighter">
+                              {crf}
+                            </span>
+                          </div>
+
+                          <Slider
+                            value={[crf]}
+                            onValueChange={(v) => setCrf(v[0])}
+                            min={codec.crf.min}
+                            max={codec.crf.max}
+                            step={1}
+                            className="py-2 cursor-col-resize"
+                          />
+                          <div className="flex justify-between text-[10px] font-mono uppercase tracking-widest text-zinc-400">
+                            <span>Better quality</span>
+                            <span>Smaller file</span>
+                          </div>
+
+                          <div className="grid grid-cols-3 gap-2">
+                            {CRF_PRESETS.map((preset) => {
+                              const presetCrf =
+                                codec.crf.default + preset.offset;
+                              return (
+                                <Button
+                                  key={preset.label}
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setCrf(presetCrf)}
+                                  className={cn(
+                                    "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                                    crf === presetCrf
+                                      ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                      : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                                  )}
+                                >
+                                  {preset.label} ({presetCrf})
+                                </Button>
+                              );
+                            })}
+                          </div>
+
+                          <div className="flex items-center justify-between gap-4">
+                            <p className="text-xs font-mono text-zinc-400">
+                              {qualityEstimateSize !== null
+                                ? `Estimated from a ${QUALITY_SAMPLE_SECONDS}s sample`
+                                : "Size depends on content; run a sample encode to estimate"}
+                            </p>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleEstimate}
+                              disabled={isEstimating || isRestarting || !ffmpeg}
+                              className="shrink-0 font-mono text-xs h-9 border-2 rounded-[2px] uppercase tracking-widest"
+                            >
+                              {isEstimating && (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              )}
+                              Estimate Size
+                            </Button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Resolution & Frame Rate (GIF uses its own fixed pipeline) */}
+                  {formatId !== "gif" && outputSize && (
+                    <div className="space-y-3">
+                      <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                        Resolution
+                      </Label>
+                      <div className="grid grid-cols-6 gap-2">
+                        {(
+                          [
+                            ["auto", "Auto"],
+                            ["original", "Original"],
+                            ["1080p", "1080p"],
+                            ["720p", "720p"],
+                            ["480p", "480p"],
+                            ["custom", "Custom"],
+                          ] as const
+                        ).map(([preset, label]) => (
+                          <Button
+                            key={preset}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setResolutionPreset(preset)}
+                            className={cn(
+                              "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                              resolutionPreset === preset
+                                ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                            )}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      {resolutionPreset === "custom" && (
+                        <div className="flex items-center gap-2">
+                          <Label
+                            htmlFor="custom-width"
+                            className="text-xs font-mono text-zinc-500 uppercase"
+                          >
+                            Width
+                          </Label>
+                          <Input
+                            id="custom-width"
+                            type="number"
+                            min={16}
+                            step={2}
+                            value={customWidth}
+                            onChange={(e) =>
+                              setCustomWidth(
+                                Math.max(16, Number(e.target.value) || 16),
+                              )
+                            }
+                            className="font-mono text-sm h-9 w-28 text-right border-2 rounded-[2px] focus-visible:ring-0 focus-visible:border-orange-500"
+                          />
+                          <span className="text-xs font-mono text-zinc-400">
+                            px, height follows the aspect ratio
+                          </span>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-4 gap-2">
+                        {[null, ...FPS_CAPS].map((cap) => (
+                          <Button
+                            key={cap ?? "source"}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setFpsCap(cap)}
+                            className={cn(
+                              "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                              fpsCap === cap
+                                ? "border-orange-600 text-orange-600"
+                                : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                            )}
+                          >
+                            {cap === null ? "Source fps" : `≤${cap} fps`}
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs font-mono text-zinc-400">
+                        Output: {outputSize.width}x{outputSize.height}
+                        {outputFps !== null &&
+                          ` · ${Math.round(outputFps * 100) / 100} fps`}
+                        {resolutionPreset === "auto" &&
+                          (outputSize.width !== video.meta.width
+                            ? " (downscaled for the compression ratio)"
+                            : " (auto-downscales at low ratios)")}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Audio */}
+                  {format.audio && audioPlan && (
+                    <div className="space-y-3">
+                      <Label className="uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                        Audio
+                      </Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {(
+                          [
+                            ["keep", "Keep"],
+                            ["encode", format.audio.label],
+                            ["mono", "Mono"],
+                            ["remove", "Remove"],
+                          ] as const
+                        ).map(([mode, label]) => (
+                          <Button
+                            key={mode}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setAudioMode(mode)}
+                            className={cn(
+                              "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                              audioMode === mode
+                                ? "border-zinc-900 bg-zinc-900 text-white dark:border-white dark:bg-white dark:text-zinc-900"
+                                : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                            )}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      {audioPlan.action === "encode" && (
+                        <div className="grid grid-cols-4 gap-2">
+                          {AUDIO_BITRATE_STEPS_KBPS.map((kbps) => (
+                            <Button
+                              key={kbps}
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAudioKbps(kbps)}
+                              className={cn(
+                                "font-mono text-xs h-9 border-2 rounded-[2px] transition-all",
+                                audioKbps === kbps
+                                  ? "border-orange-600 text-orange-600"
+                                  : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-900 dark:border-zinc-800 dark:hover:border-zinc-700",
+                              )}
+                            >
+                              {kbps} kbps
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs font-mono text-zinc-400">
+                        {getAudioNote(audioPlan, format, video)}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Two-pass toggle (bitrate modes only) */}
+                  {sizeMode !== "quality" && formatId !== "gif" && (
+                    <label className="flex items-start gap-3 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={twoPass}
+                        onChange={(e) => setTwoPass(e.target.checked)}
+                        className="mt-0.5 h-4 w-4 accent-orange-600"
+                      />
+                      <span className="space-y-0.5">
+                        <span className="block uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                          Two-Pass Encoding
+                        </span>
+                        <span className="block text-xs font-mono text-zinc-400">
+                          More accurate output size, roughly twice as slow
+                        </span>
+                      </span>
+                    </label>
+                  )}
+
+                  {/* Save-to-disk toggle (File System Access API only) */}
+                  {canSaveToDisk && (
+                    <label className="flex items-start gap-3 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={saveToDisk}
+                        onChange={(e) => setSaveToDisk(e.target.checked)}
+                        className="mt-0.5 h-4 w-4 accent-orange-600"
+                      />
+                      <span className="space-y-0.5">
+                        <span className="block uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                          Save Directly to Disk
+                        </span>
+                        <span className="block text-xs font-mono text-zinc-400">
+                          Pick a location first; the output is written to disk
+                          instead of held in memory
+                        </span>
+                      </span>
+                    </label>
+                  )}
+
+                  {/* Segmented encoding toggle (long clips only) */}
+                  {canSegment && (
+                    <label className="flex items-start gap-3 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={segmented}
+                        onChange={(e) => setSegmented(e.target.checked)}
+                        className="mt-0.5 h-4 w-4 accent-orange-600"
+                      />
+                      <span className="space-y-0.5">
+                        <span className="block uppercase tracking-widest text-xs font-bold text-zinc-700 dark:text-zinc-300">
+                          Segmented Encoding
+                        </span>
+                        <span className="block text-xs font-mono text-zinc-400">
+                          Encode in {DEFAULT_SEGMENT_SECONDS / 60}-minute chunks
+                          to bound memory; finished chunks survive a crash and
+                          are reused on retry
+                        </span>
+                      </span>
+                    </label>
+                  )}
+
+                  {/* Unsupported format/codec combination */}
+                  {outputIssue && (
+                    <Alert
+                      variant="destructive"
+                      className="rounded-[2px] border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30"
+                    >
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle className="font-bold uppercase tracking-wide text-xs mb-1">
+                        Unsupported Output
+                      </AlertTitle>
+                      <AlertDescription className="text-xs font-mono opacity-90">
+                        {OUTPUT_ISSUE_MESSAGES[outputIssue]}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Target too small warning */}
+                  {compressionPlan && plan && !plan.feasible && (
                     <Alert className="rounded-[2px] border-amber-500/50 bg-amber-50 dark:bg-amber-950/10 text-amber-900 dark:text-amber-100">
                       <Info className="h-4 w-4 text-amber-600" />
                       <AlertTitle className="font-bold uppercase tracking-wide text-xs mb-1">
-                        Warning: Low Bitrate
+                        Warning: Target Too Small
                       </AlertTitle>
                       <AlertDescription className="text-xs font-mono opacity-90">
-                        Video bitrate is already low (
-                        {Math.round(
-                          calculateBitrate(
-                            video.file.size,
-                            video.meta.duration,
-                          ),
-                        )}{" "}
-                        kbps). Quality loss may occur.
+                        {targetSizeMB} MB is too small for a{" "}
+                        {formatTime(compressionPlan.duration)}{" "}
+                        {trimRange ? "clip" : "video"}. The output may exceed
+                        the limit; try a larger size or a shorter clip.
                       </AlertDescription>
                     </Alert>
                   )}
 
+                  {/* Likely out-of-memory warning */}
+                  {memoryRisk && compressionPlan && heapLimit && (
+                    <Alert className="rounded-[2px] border-amber-500/50 bg-amber-50 dark:bg-amber-950/10 text-amber-900 dark:text-amber-100">
+                      <Info className="h-4 w-4 text-amber-600" />
+                      <AlertTitle className="font-bold uppercase tracking-wide text-xs mb-1">
+                        Warning: May Run Out of Memory
+                      </AlertTitle>
+                      <AlertDescription className="text-xs font-mono opacity-90">
+                        This job needs about{" "}
+                        {formatBytes(compressionPlan.estimatedMemory)} of the{" "}
+                        {formatBytes(heapLimit)} available to the engine and may
+                        fail partway. Try a lower resolution, a shorter clip or
+                        a smaller output.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Already-efficient warning (codec and fps aware) */}
+                  {analysis &&
+                    formatId !== "gif" &&
+                    (analysis.efficient ||
+                      (analysis.growthRisk &&
+                        (sizeMode !== "ratio" ||
+                          ratio < analysis.recommendedRatio))) && (
+                      <Alert className="rounded-[2px] border-amber-500/50 bg-amber-50 dark:bg-amber-950/10 text-amber-900 dark:text-amber-100">
+                        <Info className="h-4 w-4 text-amber-600" />
+                        <AlertTitle className="font-bold uppercase tracking-wide text-xs mb-1">
+                          {analysis.efficient
+                            ? "Warning: Already Efficient"
+                            : "Warning: Less Efficient Codec"}
+                        </AlertTitle>
+                        <AlertDescription className="text-xs font-mono opacity-90 space-y-2">
+                          <p>
+                            {analysis.sourceCodec ?? "Video"} at{" "}
+                            {Math.round(analysis.videoKbps)} kbps,{" "}
+                            {Math.round(analysis.fps)} fps
+                            {analysis.fpsAssumed && " (assumed)"}.{" "}
+                            {analysis.efficient
+                              ? "The bitrate is already low for this codec; further compression will cost visible quality."
+                              : `${codec.label} needs more bits than ${analysis.sourceCodec} for the same quality; the output may grow or lose detail.`}
+                          </p>
+                          {/* Switching to a ratio would lift the host size limit */}
+                          {analysis.recommendedRatio < 100 && !maxSizeMB ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                setSizeMode("ratio");
+                                setRatio(analysis.recommendedRatio);
+                              }}
+                              className="h-7 font-mono text-xs border-2 rounded-[2px] border-amber-500/50 bg-transparent hover:bg-amber-100 dark:hover:bg-amber-900/30"
+                            >
+                              Use {analysis.recommendedRatio}% (recommended)
+                            </Button>
+                          ) : (
+                            <p>
+                              Consider keeping the original or choosing a more
+                              efficient codec.
+                            </p>
+                          )}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                   <Separator className="bg-zinc-100 dark:bg-zinc-800" />
 
                   <Button
                     onClick={startCompression}
+                    disabled={
+                      isRestarting || isEstimating || !ffmpeg || !!outputIssue
+                    }
                     size="lg"
                     className="w-full bg-orange-600 hover:bg-orange-700 text-white h-14 text-lg font-bold uppercase tracking-widest rounded-[2px] shadow-lg shadow-orange-900/10 hover:shadow-orange-600/20 active:translate-y-0.5 transition-all"
                   >
-                    Initialize Compression
-                    <ArrowRight className="ml-2 h-5 w-5" />
+                    {isRestarting ? (
+                      <>
+                        Restarting Engine
+                        <Loader2 className="ml-2 h-5 w-5 animate-spin" />
+                      </>
+                    ) : (
+                      <>
+                        Initialize Compression
+                        <ArrowRight className="ml-2 h-5 w-5" />
+                      </>
+                    )}
                   </Button>
                 </div>
               )}
@@ -600,9 +2038,38 @@ export default function VideoCompressor() {
                       </div>
                     </div>
                     <div className="flex justify-between text-xs font-mono text-zinc-400">
-                      <span>Mode: ULTRAFAST</span>
+                      <span>
+                        {compressionPlan?.video
+                          ? `${VIDEO_CODECS[compressionPlan.video.codec].label} · Mode: ${compressionPlan.video.speed.toUpperCase()}`
+                          : "GIF"}
+                        {segmentProgress
+                          ? ` · Segment ${segmentProgress.segment}/${segmentProgress.totalSegments}` +
+                            (segmentProgress.resumed > 0
+                              ? ` (${segmentProgress.resumed} resumed)`
+                              : "")
+                          : pass.total > 1 &&
+                            ` · Pass ${pass.current}/${pass.total}`}
+                      </span>
                       <span>Time: {formatTime(elapsedTime)}</span>
                     </div>
+                    {liveStats && (
+                      <div className="flex justify-between text-xs font-mono text-zinc-400">
+                        <span>
+                          Speed:{" "}
+                          {liveStats.speed
+                            ? `${liveStats.speed.toFixed(2)}x`
+                            : "--"}
+                          {liveStats.projectedSize !== null &&
+                            ` · Projected: ${formatBytes(liveStats.projectedSize)}`}
+                        </span>
+                        <span>
+                          ETA:{" "}
+                          {liveStats.eta !== null
+                            ? formatTime(liveStats.eta)
+                            : "--:--"}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
                   <div className="text-center space-y-1">
@@ -637,16 +2104,28 @@ export default function VideoCompressor() {
 
                   {/* Preview Area */}
                   <div className="aspect-video bg-zinc-950 relative group border-b border-zinc-800">
-                    <video
-                      key={previewMode} // force reload
-                      controls
-                      className="w-full h-full"
-                      src={
-                        previewMode === "original"
-                          ? URL.createObjectURL(video.file)
-                          : result.blobUrl
-                      }
-                    />
+                    {previewMode === "compressed" &&
+                    result.blob.type.startsWith("image/") ? (
+                      // Blob URLs can't go through the image optimizer
+                      <Image
+                        src={result.blobUrl}
+                        alt="Compressed result"
+                        fill
+                        unoptimized
+                        className="object-contain"
+                      />
+                    ) : (
+                      <video
+                        key={previewMode} // force reload
+                        controls
+                        className="w-full h-full"
+                        src={
+                          previewMode === "original"
+                            ? (sourceUrl ?? undefined)
+                            : result.blobUrl
+                        }
+                      />
+                    )}
                     {/* Toggle Switch */}
                     <div className="absolute top-4 right-4 bg-black/80 backdrop-blur-md p-1 rounded-[2px] border border-white/10 flex gap-1 transform transition-transform z-20">
                       <Button
@@ -713,6 +2192,25 @@ export default function VideoCompressor() {
                     </div>
                   </div>
 
+                  {/* Target size report */}
+                  {result.targetSize !== null && (
+                    <div
+                      className={cn(
+                        "flex justify-between px-6 py-3 border-b text-xs font-mono uppercase tracking-widest",
+                        result.size <= result.targetSize
+                          ? "border-emerald-100 bg-emerald-50/50 text-emerald-700 dark:border-emerald-900/50 dark:bg-emerald-950/20 dark:text-emerald-400"
+                          : "border-red-200 bg-red-50 text-red-600 dark:border-red-900 dark:bg-red-950/30",
+                      )}
+                    >
+                      <span>Target {result.targetSize / BYTES_PER_MB} MB</span>
+                      <span>
+                        {result.size <= result.targetSize
+                          ? `Within limit (${Math.round((result.size / result.targetSize) * 100)}%)`
+                          : `Over limit by ${formatBytes(result.size - result.targetSize)}`}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Warning if size increased */}
                   {result.size > video.file.size && (
                     <Alert
@@ -736,18 +2234,27 @@ export default function VideoCompressor() {
 
                   {/* Export Actions */}
                   <div className="p-8 space-y-6">
-                    <div className="space-y-2">
-                      <Label className="uppercase text-[10px] tracking-widest text-zinc-500 font-mono">
-                        Export Filename
-                      </Label>
-                      <div className="flex gap-2">
-                        <Input
-                          value={exportName}
-                          onChange={(e) => setExportName(e.target.value)}
-                          className="font-mono text-sm h-10 border-2 rounded-[2px] focus-visible:ring-0 focus-visible:border-orange-500"
-                        />
+                    {result.savedAs ? (
+                      <div className="flex items-center gap-2 text-xs font-mono text-emerald-700 dark:text-emerald-400">
+                        <CheckCircle2 className="h-4 w-4 shrink-0" />
+                        <span className="truncate">
+                          Saved to disk as {result.savedAs}
+                        </span>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label className="uppercase text-[10px] tracking-widest text-zinc-500 font-mono">
+                          Export Filename
+                        </Label>
+                        <div className="flex gap-2">
+                          <Input
+                            value={exportName}
+                            onChange={(e) => setExportName(e.target.value)}
+                            className="font-mono text-sm h-10 border-2 rounded-[2px] focus-visible:ring-0 focus-visible:border-orange-500"
+                          />
+                        </div>
+                      </div>
+                    )}
                     <div className="flex gap-4 pt-2">
                       <Button
                         variant="outline"
@@ -761,43 +2268,70 @@ export default function VideoCompressor() {
                         }}
                       >
                         <RefreshCcw className="mr-2 h-4 w-4" />
-                        Discard
+                        {result.savedAs ? "Done" : "Discard"}
                       </Button>
                       <Button
                         className="flex-[2] bg-emerald-600 hover:bg-emerald-700 text-white h-12 uppercase tracking-widest text-xs font-bold rounded-[2px] shadow-lg shadow-emerald-900/10 hover:shadow-emerald-600/20 active:translate-y-0.5 transition-all"
                         onClick={handleDownload}
                       >
                         <Download className="mr-2 h-4 w-4" />
-                        Save to Disk
+                        {result.savedAs ? "Save a Copy" : "Save to Disk"}
                       </Button>
                     </div>
                   </div>
                 </div>
               )}
+            </div>
+          )}
 
-              {/* S3: Error */}
-              {status === "error" && (
-                <div className="p-6">
-                  <Alert variant="destructive" className="rounded-[2px]">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertTitle className="uppercase font-bold tracking-wide text-xs">
-                      Processing Failed
-                    </AlertTitle>
-                    <AlertDescription className="font-mono text-xs mt-1">
-                      {errorMsg}
-                    </AlertDescription>
-                  </Alert>
-                  <div className="mt-6 flex justify-end">
+          {/* S3: Error (also shown when the file could not be read) */}
+          {status === "error" && (
+            <div className="p-6">
+              <Alert variant="destructive" className="rounded-[2px]">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle className="uppercase font-bold tracking-wide text-xs">
+                  Processing Failed
+                </AlertTitle>
+                <AlertDescription className="font-mono text-xs mt-1">
+                  {errorMsg}
+                </AlertDescription>
+              </Alert>
+              {errorLogs.length > 0 && (
+                <details className="mt-4 rounded-[2px] border border-zinc-200 dark:border-zinc-800">
+                  <summary className="flex cursor-pointer select-none items-center justify-between px-3 py-2 uppercase tracking-widest text-xs font-bold text-zinc-500">
+                    <span>FFmpeg Log ({errorLogs.length} lines)</span>
                     <Button
-                      onClick={() => setStatus("idle")}
-                      variant="outline"
-                      className="uppercase tracking-wider text-xs font-bold"
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        // Keep the panel state when copying
+                        e.preventDefault();
+                        copyErrorLogs();
+                      }}
+                      className="h-7 uppercase tracking-wider text-xs font-bold"
                     >
-                      Select New File
+                      {logsCopied ? (
+                        <Check className="mr-1.5 h-3.5 w-3.5" />
+                      ) : (
+                        <Copy className="mr-1.5 h-3.5 w-3.5" />
+                      )}
+                      {logsCopied ? "Copied" : "Copy"}
                     </Button>
-                  </div>
-                </div>
+                  </summary>
+                  <pre className="max-h-64 overflow-auto border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 p-3 font-mono text-[11px] leading-relaxed text-zinc-600 dark:text-zinc-400 whitespace-pre-wrap break-all">
+                    {errorLogs.join("\n")}
+                  </pre>
+                </details>
               )}
+              <div className="mt-6 flex justify-end">
+                <Button
+                  onClick={() => setStatus("idle")}
+                  variant="outline"
+                  className="uppercase tracking-wider text-xs font-bold"
+                >
+                  Select New File
+                </Button>
+              </div>
             </div>
           )}
         </CardContent>
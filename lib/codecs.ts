@@ -0,0 +1,204 @@
+/**
+ * 视频编码器定义
+ *
+ * 描述每种输出编码的 FFmpeg 编码器、速度参数、码率效率与 CRF 范围。
+ * 编码与封装格式的对应关系见 formats.ts。
+ * 实际可用的编码器取决于加载的 FFmpeg 核心，需要通过 probeEncoders 检测。
+ */
+
+/**
+ * 输出视频编码
+ */
+export type VideoCodecId = "h264" | "h265" | "vp9" | "av1";
+
+/**
+ * FFmpeg 编码器实现（同一编码可能有多个实现，如 AV1）
+ */
+export interface VideoEncoderImpl {
+  /** 编码器名称，对应 `ffmpeg -encoders` 输出 */
+  name: string;
+  /** 速度优先参数（浏览器内编码以速度为主） */
+  speedArgs: string[];
+  /** speedArgs 对应的速度档位，用于界面显示 */
+  speedLabel: string;
+  /** CRF 模式参数 */
+  qualityArgs: (crf: number) => string[];
+  /** 两遍编码参数，stats 文件写入 MEMFS */
+  passArgs: (pass: 1 | 2, logPrefix: string) => string[];
+  /** 两遍编码产生的 stats 文件，用于清理 */
+  passLogFiles: (logPrefix: string) => string[];
+}
+
+/**
+ * 视频编码定义
+ */
+export interface VideoCodec {
+  id: VideoCodecId;
+  /** 显示名称 */
+  label: string;
+  /** 候选编码器实现，按优先级排列 */
+  encoders: VideoEncoderImpl[];
+  /** 达到相同画质所需码率，相对 H.264 的比例 */
+  efficiency: number;
+  /** CRF 取值范围与默认值 */
+  crf: { min: number; max: number; default: number };
+}
+
+/** libx264 / libx265 / libvpx 的 -pass 参数写法 */
+const standardPassArgs = (pass: 1 | 2, logPrefix: string) => [
+  "-pass",
+  String(pass),
+  "-passlogfile",
+  logPrefix,
+];
+const standardPassLogFiles = (logPrefix: string) => [
+  `${logPrefix}-0.log`,
+  `${logPrefix}-0.log.mbtree`,
+];
+
+/** VP9 / AV1 的 CRF 需要配合 -b:v 0 才是恒定质量模式 */
+const constrainedQualityArgs = (crf: number) => [
+  "-crf",
+  String(crf),
+  "-b:v",
+  "0",
+];
+
+/**
+ * 所有支持的视频编码
+ */
+export const VIDEO_CODECS: Record<VideoCodecId, VideoCodec> = {
+  h264: {
+    id: "h264",
+    label: "H.264",
+    encoders: [
+      {
+        name: "libx264",
+        speedArgs: ["-preset", "ultrafast"],
+        speedLabel: "ultrafast",
+        qualityArgs: (crf) => ["-crf", String(crf)],
+        passArgs: standardPassArgs,
+        passLogFiles: standardPassLogFiles,
+      },
+    ],
+    efficiency: 1,
+    crf: { min: 18, max: 35, default: 23 },
+  },
+  h265: {
+    id: "h265",
+    label: "H.265 / HEVC",
+    encoders: [
+      {
+        name: "libx265",
+        speedArgs: ["-preset", "ultrafast"],
+        speedLabel: "ultrafast",
+        qualityArgs: (crf) => ["-crf", String(crf)],
+        // libx265 不识别 -pass，需要通过 x265-params 传递
+        passArgs: (pass, logPrefix) => [
+          "-x265-params",
+          `pass=${pass}:stats=${logPrefix}.log`,
+        ],
+        passLogFiles: (logPrefix) => [
+          `${logPrefix}.log`,
+          `${logPrefix}.log.cutree`,
+        ],
+      },
+    ],
+    efficiency: 0.6,
+    crf: { min: 20, max: 38, default: 28 },
+  },
+  vp9: {
+    id: "vp9",
+    label: "VP9",
+    encoders: [
+      {
+        name: "libvpx-vp9",
+        speedArgs: ["-deadline", "realtime", "-cpu-used", "8", "-row-mt", "1"],
+        speedLabel: "realtime, cpu-used 8",
+        qualityArgs: constrainedQualityArgs,
+        passArgs: standardPassArgs,
+        passLogFiles: (logPrefix) => [`${logPrefix}-0.log`],
+      },
+    ],
+    efficiency: 0.65,
+    crf: { min: 15, max: 50, default: 31 },
+  },
+  av1: {
+    id: "av1",
+    label: "AV1",
+    encoders: [
+      {
+        name: "libsvtav1",
+        speedArgs: ["-preset", "12"],
+        speedLabel: "preset 12",
+        qualityArgs: (crf) => ["-crf", String(crf)],
+        passArgs: standardPassArgs,
+        passLogFiles: (logPrefix) => [`${logPrefix}-0.log`],
+      },
+      {
+        name: "libaom-av1",
+        speedArgs: ["-usage", "realtime", "-cpu-used", "8", "-row-mt", "1"],
+        speedLabel: "realtime, cpu-used 8",
+        qualityArgs: constrainedQualityArgs,
+        passArgs: standardPassArgs,
+        passLogFiles: (logPrefix) => [`${logPrefix}-0.log`],
+      },
+    ],
+    efficiency: 0.5,
+    crf: { min: 20, max: 50, default: 35 },
+  },
+};
+
+/**
+ * 选择编码可用的编码器实现
+ *
+ * @param encoders - probeEncoders 返回的编码器名称
+ * @returns 第一个可用的实现，不可用时返回 null
+ */
+export function getEncoderImpl(
+  codec: VideoCodec,
+  encoders: readonly string[],
+): VideoEncoderImpl | null {
+  return codec.encoders.find((impl) => encoders.includes(impl.name)) ?? null;
+}
+
+/**
+ * 获取当前核心支持的视频编码列表
+ */
+export function getAvailableCodecs(encoders: readonly string[]): VideoCodec[] {
+  return Object.values(VIDEO_CODECS).filter(
+    (codec) => getEncoderImpl(codec, encoders) !== null,
+  );
+}
+
+/**
+ * 常见输入编码达到相同画质所需码率，相对 H.264 的比例
+ *
+ * 键为 `ffmpeg -i` 输出中的编码名称；帧内编码（ProRes、MJPEG 等）码率远高于 H.264
+ */
+const SOURCE_CODEC_EFFICIENCY: Record<string, number> = {
+  h264: 1,
+  hevc: 0.6,
+  vp9: 0.65,
+  av1: 0.5,
+  vp8: 1.1,
+  vc1: 1.2,
+  wmv3: 1.3,
+  theora: 1.4,
+  mpeg4: 1.6,
+  msmpeg4v3: 1.8,
+  mpeg2video: 2.2,
+  mpeg1video: 2.5,
+  mjpeg: 6,
+  prores: 8,
+  dnxhd: 8,
+};
+
+/**
+ * 获取输入编码的码率效率，未知编码按 H.264 处理
+ *
+ * @param codec - 输入视频流的编码名称，如 hevc
+ */
+export function getSourceCodecEfficiency(codec: string): number {
+  return SOURCE_CODEC_EFFICIENCY[codec] ?? 1;
+}
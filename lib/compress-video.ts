@@ -0,0 +1,248 @@
+/**
+ * 无界面压缩 API
+ *
+ * 不依赖 React，封装探测、写入、执行、读取与清理的完整流程，
+ * 可直接嵌入上传等业务流程：
+ * ```ts
+ * const { blob } = await compressVideo(file, { ratio: 50 }, { onProgress, signal });
+ * ```
+ */
+
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import {
+  buildCompressionPlan,
+  resolveCompressionOptions,
+  type CompressionInput,
+  type CompressionPlan,
+  type CompressionPreset,
+} from "./compression-plan";
+import {
+  cleanupFiles,
+  execOrThrow,
+  loadFFmpeg,
+  mountInputFile,
+  probeEncoders,
+  toTransferableBytes,
+  unmountInputFile,
+  type FFmpegProgress,
+  type LoadFFmpegOptions,
+} from "./ffmpeg";
+import { getDisplaySize, probeMediaInfo, type MediaInfo } from "./media-info";
+import { writeToFileHandle } from "./save-file";
+import { runSegmentedPlan, type SegmentedProgress } from "./segmented-encode";
+
+/**
+ * compressVideo 选项，未指定的字段使用页面默认值（MP4 / H.264 / 70% / 保留音轨）
+ */
+export type CompressVideoOptions = CompressionPreset;
+
+/**
+ * 压缩进度
+ */
+export interface CompressVideoProgress {
+  /** 总体进度 0-1（已合并多遍编码） */
+  progress: number;
+  /** 当前编码遍数，从 1 开始 */
+  pass: number;
+  totalPasses: number;
+  /** 分段编码时的当前片段（从 1 开始）与片段数 */
+  segment?: number;
+  totalSegments?: number;
+}
+
+/**
+ * compressVideo 的回调与控制参数
+ */
+export interface CompressVideoHandlers {
+  /**
+   * 已加载的 FFmpeg 实例
+   *
+   * 不传时自动加载新实例并在结束后终止。中止任务会 terminate 实例，
+   * 传入的实例需要用 reloadFFmpeg 重新加载后才能继续使用。
+   */
+  ffmpeg?: FFmpeg;
+  /** 自动加载实例时的选项（中止使用 signal） */
+  loadOptions?: Omit<LoadFFmpegOptions, "signal">;
+  onProgress?: (progress: CompressVideoProgress) => void;
+  /** 中止信号，中止后 Promise 以 signal.reason 拒绝 */
+  signal?: AbortSignal;
+  /**
+   * 输出文件句柄（如 showSaveFilePicker 返回值）
+   *
+   * 传入时输出直接写入该文件，返回的 blob 为磁盘上的文件，不在内存中保留副本
+   */
+  saveTo?: FileSystemFileHandle;
+}
+
+/**
+ * 压缩结果
+ */
+export interface CompressVideoResult {
+  blob: Blob;
+  /** 实际执行的压缩计划（参数、预计大小、输出尺寸） */
+  plan: CompressionPlan;
+  /** 输入文件的媒体信息 */
+  media: MediaInfo;
+}
+
+/**
+ * runCompressionPlan 的回调与参数
+ */
+export interface RunCompressionPlanHandlers {
+  /** 输入的完整时长（秒），分段编码据此换算进度 */
+  inputDuration: number;
+  /** 每一遍编码开始时调用，pass 从 1 开始（分段编码不调用） */
+  onPass?: (pass: number, totalPasses: number) => void;
+  /** 分段编码的汇总进度 */
+  onSegment?: (progress: SegmentedProgress) => void;
+  /** 输出文件句柄，传入时直接写入磁盘 */
+  saveTo?: FileSystemFileHandle | null;
+}
+
+/**
+ * 在已加载的实例上执行压缩计划
+ *
+ * 挂载输入 → 依次执行每一遍编码（退出码非 0 时立即失败）→ 读取输出 →
+ * 清理临时文件并卸载输入；分段计划交给 runSegmentedPlan。
+ * 页面组件与 compressVideo 共用，保证两者的执行流程一致。
+ *
+ * @returns 输出 Blob，传入 saveTo 时为磁盘上的文件
+ * @throws FFmpeg 执行失败，或实例被 terminate
+ */
+export async function runCompressionPlan(
+  ffmpeg: FFmpeg,
+  file: File,
+  plan: CompressionPlan,
+  handlers: RunCompressionPlanHandlers,
+): Promise<Blob> {
+  const { inputDuration, onPass, onSegment, saveTo } = handlers;
+  let output: Uint8Array;
+
+  if (plan.segmented) {
+    // 分段编码自行挂载输入、汇总进度并清理文件
+    output = await runSegmentedPlan(
+      ffmpeg,
+      file,
+      { ...plan, segmented: plan.segmented },
+      { inputDuration, onProgress: onSegment },
+    );
+  } else {
+    try {
+      await mountInputFile(ffmpeg, file, plan.inputFile);
+      // 两遍编码的第一遍把码控统计写入 MEMFS
+      for (const [index, args] of plan.passes.entries()) {
+        onPass?.(index + 1, plan.passes.length);
+        await execOrThrow(ffmpeg, args);
+      }
+      output = (await ffmpeg.readFile(plan.outputFile)) as Uint8Array;
+    } finally {
+      await cleanupFiles(ffmpeg, plan.tempFiles);
+      await unmountInputFile(ffmpeg, plan.inputFile);
+    }
+  }
+
+  return saveTo
+    ? writeToFileHandle(saveTo, output)
+    : new Blob([toTransferableBytes(output)], { type: plan.mimeType });
+}
+
+/**
+ * 压缩单个视频
+ *
+ * 依次完成：加载实例（未传入时）→ 探测媒体信息与编码器 → 生成压缩计划 →
+ * 挂载输入 → 执行每一遍编码 → 读取输出 → 清理临时文件并卸载输入。
+ *
+ * @param file - 输入视频
+ * @param options - 压缩选项
+ * @param handlers - 进度回调、中止信号与可复用的实例
+ * @throws 文件无法识别、输出组合不可用、FFmpeg 执行失败，或被中止（signal.reason）
+ */
+export async function compressVideo(
+  file: File,
+  options: CompressVideoOptions = {},
+  handlers: CompressVideoHandlers = {},
+): Promise<CompressVideoResult> {
+  const { signal, onProgress } = handlers;
+  signal?.throwIfAborted();
+
+  const ownsInstance = !handlers.ffmpeg;
+  const ffmpeg = handlers.ffmpeg ?? new FFmpeg();
+  // terminate 是停止 exec 的唯一方式
+  const handleAbort = () => ffmpeg.terminate();
+  signal?.addEventListener("abort", handleAbort, { once: true });
+
+  let plan: CompressionPlan | null = null;
+  let pass = 1;
+  // FFmpeg 按完整输入时长计算进度，裁剪后的片段会提前结束
+  let progressScale = 1;
+  const handleProgress = ({ progress }: FFmpegProgress) => {
+    // 分段编码的进度由 onSegment 汇总
+    if (!plan || plan.segmented || progress <= 0 || progress > 1) return;
+    const passFraction = Math.min(1, progress * progressScale);
+    onProgress?.({
+      progress: (pass - 1 + passFraction) / plan.passes.length,
+      pass,
+      totalPasses: plan.passes.length,
+    });
+  };
+
+  try {
+    if (ownsInstance) {
+      await loadFFmpeg(ffmpeg, undefined, { ...handlers.loadOptions, signal });
+    }
+    // terminate 之后 exec 仍可能在新加载的实例上执行，每一步之后都要检查
+    signal?.throwIfAborted();
+
+    const media = await probeMediaInfo(ffmpeg, file);
+    signal?.throwIfAborted();
+    if (!media.video || media.duration <= 0) {
+      throw new Error("没有可压缩的视频流");
+    }
+    const input: CompressionInput = {
+      size: file.size,
+      duration: media.duration,
+      ...getDisplaySize(media.video),
+      media,
+    };
+
+    const encoders = await probeEncoders(ffmpeg);
+    signal?.throwIfAborted();
+    plan = buildCompressionPlan(
+      input,
+      resolveCompressionOptions(options, encoders, input),
+    );
+    if (plan.duration > 0) progressScale = input.duration / plan.duration;
+
+    ffmpeg.on("progress", handleProgress);
+    const blob = await runCompressionPlan(ffmpeg, file, plan, {
+      inputDuration: input.duration,
+      onPass: (current) => {
+        pass = current;
+      },
+      onSegment: ({ progress, segment, totalSegments }) =>
+        onProgress?.({
+          progress,
+          pass,
+          totalPasses: 1,
+          segment,
+          totalSegments,
+        }),
+      saveTo: handlers.saveTo,
+    });
+    onProgress?.({
+      progress: 1,
+      pass,
+      totalPasses: plan.segmented ? 1 : plan.passes.length,
+    });
+    return { blob, plan, media };
+  } catch (error) {
+    // 中止导致的 terminate 错误统一转换为 signal.reason
+    if (signal?.aborted) throw signal.reason;
+    throw error;
+  } finally {
+    ffmpeg.off("progress", handleProgress);
+    signal?.removeEventListener("abort", handleAbort);
+    // 临时文件已由 runCompressionPlan 清理
+    if (ownsInstance) ffmpeg.terminate();
+  }
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import {
+  BYTES_PER_MB,
+  buildCompressionPlan,
+  planBitrate,
+  resolveCompressionOptions,
+  type CompressionInput,
+  type CompressionOptions,
+  type CompressionPreset,
+} from "./compression-plan";
+import type { MediaInfo } from "./media-info";
+
+const ENCODERS = ["libx264", "aac"];
+
+/**
+ * 构造探测结果：H.264 视频 + 128 kbps AAC 音轨
+ */
+function createMedia(width: number, height: number, duration: number) {
+  return {
+    format: "mov,mp4,m4a,3gp,3g2,mj2",
+    duration,
+    bitrate: null,
+    streams: [],
+    video: {
+      type: "video",
+      index: 0,
+      codec: "h264",
+      bitrate: null,
+      language: null,
+      isDefault: true,
+      width,
+      height,
+      fps: 30,
+      rotation: 0,
+      isCoverArt: false,
+    },
+    audio: {
+      type: "audio",
+      index: 1,
+      codec: "aac",
+      bitrate: 128,
+      language: null,
+      isDefault: true,
+      sampleRate: 48000,
+      channelLayout: "stereo",
+      channels: 2,
+    },
+  } satisfies MediaInfo;
+}
+
+function createInput(
+  overrides: Partial<Omit<CompressionInput, "media">> = {},
+): CompressionInput {
+  const input = {
+    size: 10 * BYTES_PER_MB,
+    duration: 60,
+    width: 1920,
+    height: 1080,
+    ...overrides,
+  };
+  return {
+    ...input,
+    media: createMedia(input.width, input.height, input.duration),
+  };
+}
+
+function createOptions(preset: CompressionPreset = {}): CompressionOptions {
+  return resolveCompressionOptions(preset, ENCODERS);
+}
+
+/** 参数中紧跟在 flag 之后的值 */
+function argAfter(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+describe("zero duration", () => {
+  const input = createInput({ duration: 0 });
+
+  it("keeps ratio mode at the minimum bitrate with an empty estimate", () => {
+    const options = createOptions({ ratio: 50 });
+    if (options.sizeMode !== "ratio") throw new Error("expected ratio mode");
+    const plan = planBitrate(input, options);
+
+    expect(plan.videoKbps).toBe(100);
+    expect(plan.expectedSize).toBe(0);
+    expect(plan.feasible).toBe(true);
+  });
+
+  it("marks target mode as infeasible", () => {
+    const options = createOptions({ sizeMode: "target", targetSizeMB: 8 });
+    if (options.sizeMode !== "target") throw new Error("expected target mode");
+    const plan = planBitrate(input, options);
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.expectedSize).toBe(0);
+  });
+
+  it("builds finite arguments and estimates", () => {
+    const plan = buildCompressionPlan(input, createOptions({ ratio: 50 }));
+
+    expect(plan.duration).toBe(0);
+    expect(plan.expectedSize).toBe(0);
+    expect(Number.isFinite(plan.estimatedMemory)).toBe(true);
+    for (const arg of plan.passes.flat()) {
+      expect(arg).not.toMatch(/NaN|Infinity/);
+    }
+  });
+});
+
+describe("portrait video", () => {
+  const input = createInput({ width: 1080, height: 1920 });
+
+  it("fits resolution presets to the long edge", () => {
+    const plan = buildCompressionPlan(
+      input,
+      createOptions({ resolution: { preset: "720p", customWidth: 0 } }),
+    );
+
+    expect(plan.output).toMatchObject({ width: 720, height: 1280 });
+    expect(argAfter(plan.passes[0], "-vf")).toBe("scale=720:1280");
+  });
+
+  it("downscales by the long edge in auto mode", () => {
+    const plan = buildCompressionPlan(input, createOptions({ ratio: 30 }));
+
+    expect(plan.output).toMatchObject({ width: 720, height: 1280 });
+  });
+
+  it("keeps the original size when the preset would upscale", () => {
+    const plan = buildCompressionPlan(
+      input,
+      createOptions({
+        ratio: 90,
+        resolution: { preset: "1080p", customWidth: 0 },
+      }),
+    );
+
+    expect(plan.output).toMatchObject({ width: 1080, height: 1920 });
+    expect(plan.passes[0]).not.toContain("-vf");
+  });
+});
+
+describe("tiny ratios", () => {
+  const input = createInput();
+
+  it("clamps the video bitrate and estimates from the clamped value", () => {
+    const options = createOptions({ ratio: 1 });
+    if (options.sizeMode !== "ratio") throw new Error("expected ratio mode");
+    const plan = planBitrate(input, options);
+
+    expect(plan.videoKbps).toBe(100);
+    expect(plan.audio).toEqual({ action: "copy", kbps: 128 });
+    // (100 + 128) kbps * 60 s，再加封装开销；远大于原始大小的 1%
+    expect(plan.expectedSize).toBeCloseTo((228 * 1000 * 60) / 8 / 0.98, 0);
+    expect(plan.expectedSize).toBeGreaterThan(input.size * 0.01);
+  });
+
+  it("passes the clamped bitrate to the encoder", () => {
+    const plan = buildCompressionPlan(input, createOptions({ ratio: 1 }));
+    const [args] = plan.passes;
+
+    expect(argAfter(args, "-b:v")).toBe("100k");
+    expect(argAfter(args, "-c:a")).toBe("copy");
+    expect(plan.expectedSize).toBe(plan.bitrate?.expectedSize);
+  });
+
+  it("flags target sizes below the minimum bitrate", () => {
+    const options = createOptions({ sizeMode: "target", targetSizeMB: 0.1 });
+    if (options.sizeMode !== "target") throw new Error("expected target mode");
+    const plan = planBitrate(input, options);
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.videoKbps).toBe(100);
+  });
+});
+
+describe("unknown audio", () => {
+  // 探测失败时只有 <video> 读取的时长与尺寸
+  const input: CompressionInput = { ...createInput(), media: null };
+
+  it("drops audio instead of copying a stream that may not exist", () => {
+    const plan = buildCompressionPlan(input, createOptions({ ratio: 50 }));
+
+    expect(plan.audio).toEqual({ action: "none" });
+    expect(plan.passes[0]).toContain("-an");
+  });
+
+  it("skips audio extraction and mapping in segmented mode", () => {
+    const plan = buildCompressionPlan(
+      input,
+      createOptions({ ratio: 50, segmentSeconds: 20 }),
+    );
+
+    expect(plan.segmented?.segments).toHaveLength(3);
+    expect(plan.segmented?.audio).toBeNull();
+    expect(plan.segmented?.concatArgs).not.toContain("1:a");
+  });
+});
+
+describe("missing audio encoder", () => {
+  const encoders = ["libx264"];
+  const input = createInput();
+
+  it("allows jobs that copy or remove audio", () => {
+    expect(() => resolveCompressionOptions({}, encoders, input)).not.toThrow();
+    expect(() =>
+      resolveCompressionOptions(
+        { audio: { mode: "remove", kbps: 128 } },
+        encoders,
+      ),
+    ).not.toThrow();
+  });
+
+  it("rejects jobs that re-encode audio", () => {
+    expect(() =>
+      resolveCompressionOptions(
+        { audio: { mode: "mono", kbps: 64 } },
+        encoders,
+        input,
+      ),
+    ).toThrow(/audio-encoder-unavailable/);
+  });
+});
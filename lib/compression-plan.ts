@@ -0,0 +1,1006 @@
+/**
+ * 压缩计划
+ *
+ * 根据输入文件信息与用户选项计算码率、音频处理、输出尺寸，
+ * 并生成每一遍编码的 FFmpeg 参数。纯函数，不依赖 React 与 FFmpeg 实例，
+ * 可供页面组件、嵌入组件与命令行复用。
+ */
+
+import {
+  getEncoderImpl,
+  getSourceCodecEfficiency,
+  VIDEO_CODECS,
+  type VideoCodecId,
+  type VideoEncoderImpl,
+} from "./codecs";
+import {
+  canCopyAudio,
+  getFormatArgs,
+  isLosslessAudio,
+  OUTPUT_FORMATS,
+  validateOutput,
+  type OutputFormat,
+  type OutputFormatId,
+} from "./formats";
+import type { MediaInfo } from "./media-info";
+
+/** 画质下限 (bpp)，以 H.264 为基准 */
+const HIGH_COMPRESSION_BPP_THRESHOLD = 0.06;
+
+/** 无法探测帧率时假定的帧率 */
+export const DEFAULT_FPS = 30;
+
+/** 比例模式的默认压缩比例 (%)，与页面默认值一致 */
+const DEFAULT_RATIO = 70;
+
+/** H.264 的最低视频码率 (kbps)，其他编码按效率缩放 */
+const MIN_VIDEO_BITRATE_KBPS = 100;
+
+/** 十进制 MB：比 MiB 略小，输出在两种理解下都不会超限 */
+export const BYTES_PER_MB = 1000 * 1000;
+
+/** 封装开销（文件头、索引、复用） */
+const CONTAINER_OVERHEAD = 0.02;
+
+/** 目标大小模式下为 ABR 超调预留的余量 */
+const TARGET_SIZE_SAFETY = 0.95;
+
+/** 可选的音频码率 (kbps)，预算紧张时逐级下调 */
+export const AUDIO_BITRATE_STEPS_KBPS = [128, 96, 64, 32];
+
+/** 音频最多占用的预算比例 */
+const MAX_AUDIO_SHARE = 0.25;
+
+/** 两遍编码统计文件在 MEMFS 中的前缀 */
+const PASS_LOG_PREFIX = "ffmpeg2pass";
+
+/** 输入文件路径：WORKERFS 挂载需要独占一个目录 */
+const INPUT_FILE = "/input/input.mp4";
+
+/** 核心自身与解复用、滤镜、复用的基础内存占用 */
+const BASE_MEMORY = 64 * 1024 * 1024;
+
+/** 解码器保留的参考帧与线程帧缓冲数 */
+const DECODER_FRAME_BUFFERS = 16;
+
+/** 编码器的前瞻、参考帧与线程帧缓冲数 */
+const ENCODER_FRAME_BUFFERS = 32;
+
+/** yuv420p 每像素字节数 */
+const YUV420_BYTES_PER_PIXEL = 1.5;
+
+/** GIF 每像素每帧的平均字节数（调色板索引经 LZW 压缩后） */
+const GIF_BYTES_PER_PIXEL = 0.25;
+
+/** 分段编码的默认片段时长（秒） */
+export const DEFAULT_SEGMENT_SECONDS = 120;
+
+/** 分段编码时挂载片段与音轨的目录 */
+const SEGMENT_DIR = "/segments";
+
+/** concat demuxer 列表文件在 MEMFS 中的路径 */
+const CONCAT_LIST_FILE = "segments.txt";
+
+/** 分辨率预设的边界框（长边 x 短边），区分方向以兼容竖屏视频 */
+export const RESOLUTION_BOXES = {
+  "1080p": { long: 1920, short: 1080 },
+  "720p": { long: 1280, short: 720 },
+  "480p": { long: 854, short: 480 },
+};
+
+/** 可选的帧率上限 */
+export const FPS_CAPS = [60, 30, 24];
+
+/** GIF 帧率与最大宽度 */
+export const GIF_FPS = 12;
+export const GIF_MAX_WIDTH = 480;
+
+/** 两段式调色板，使 GIF 颜色尽量接近源视频 */
+const GIF_FILTER = `fps=${GIF_FPS},scale='min(${GIF_MAX_WIDTH},iw)':-1:flags=lanczos,split[a][b];[a]palettegen[p];[b][p]paletteuse`;
+
+/**
+ * 压缩输入
+ */
+export interface CompressionInput {
+  /** 文件大小（字节） */
+  size: number;
+  /** 时长（秒） */
+  duration: number;
+  /** 显示宽度（已考虑旋转） */
+  width: number;
+  /** 显示高度（已考虑旋转） */
+  height: number;
+  /** FFmpeg 探测结果，未探测时为 null（按有音轨、编码未知处理） */
+  media: MediaInfo | null;
+}
+
+/**
+ * 音频处理方式
+ */
+export type AudioMode = "keep" | "encode" | "mono" | "remove";
+
+/**
+ * 音频选项
+ */
+export interface AudioSettings {
+  mode: AudioMode;
+  /** 重新编码的码率 (kbps)，"keep" 无法复制时同样使用 */
+  kbps: number;
+}
+
+/**
+ * "keep" 无法直接复制源音轨的原因
+ */
+export type AudioFallback = "incompatible" | "lossless" | "budget";
+
+/**
+ * 针对单个输入确定的音频处理
+ */
+export type AudioPlan =
+  | {
+      action: "copy";
+      /** 源音轨码率，未知时为 null */
+      kbps: number | null;
+    }
+  | {
+      action: "encode";
+      kbps: number;
+      mono: boolean;
+      fallback: AudioFallback | null;
+    }
+  | { action: "none" };
+
+/**
+ * 分辨率预设："auto" 使用按压缩比例缩放的规则，"custom" 按指定宽度缩放
+ */
+export type ResolutionPreset =
+  "auto" | "original" | keyof typeof RESOLUTION_BOXES | "custom";
+
+/**
+ * 分辨率选项
+ */
+export interface ResolutionSettings {
+  preset: ResolutionPreset;
+  /** 自定义宽度 (px)，仅 custom 预设使用 */
+  customWidth: number;
+}
+
+/**
+ * 裁剪范围（源视频中的秒数）
+ */
+export interface TrimSettings {
+  start: number;
+  end: number;
+}
+
+/**
+ * 压缩选项
+ */
+export type CompressionOptions = (
+  | { sizeMode: "ratio"; ratio: number }
+  | { sizeMode: "target"; targetSizeMB: number }
+  | { sizeMode: "quality"; crf: number }
+) & {
+  twoPass: boolean;
+  audio: AudioSettings;
+  format: OutputFormatId;
+  codec: VideoCodecId;
+  /** 当前核心可用的编码器实现 */
+  encoder: VideoEncoderImpl;
+  /** 裁剪范围，null 表示完整时长 */
+  trim: TrimSettings | null;
+  resolution: ResolutionSettings;
+  /** 帧率上限，null 表示保持源帧率 */
+  fpsCap: number | null;
+  /** 分段编码的片段时长（秒），null 表示整段编码 */
+  segmentSeconds: number | null;
+};
+
+/**
+ * 压缩预设：未指定的字段使用页面默认值（MP4 / H.264 / 70% / 保留音轨）
+ */
+export type CompressionPreset = (
+  | { sizeMode?: "ratio"; ratio?: number }
+  | { sizeMode: "target"; targetSizeMB: number }
+  | { sizeMode: "quality"; crf?: number }
+) &
+  Partial<
+    Pick<
+      CompressionOptions,
+      | "twoPass"
+      | "audio"
+      | "format"
+      | "codec"
+      | "trim"
+      | "resolution"
+      | "fpsCap"
+      | "segmentSeconds"
+    >
+  >;
+
+type BitrateOptions = Exclude<CompressionOptions, { sizeMode: "quality" }>;
+
+/**
+ * 码率计划（比例与目标大小模式）
+ */
+export interface BitratePlan {
+  videoKbps: number;
+  audio: AudioPlan;
+  /** 预计输出大小（字节） */
+  expectedSize: number;
+  /** 目标大小模式下的硬性上限（字节） */
+  targetSize: number | null;
+  /** 相对原始大小的百分比，决定自动缩放 */
+  effectiveRatio: number;
+  /** 目标所需码率低于最低码率时为 false */
+  feasible: boolean;
+}
+
+/**
+ * 压缩计划
+ */
+export interface CompressionPlan {
+  /** 每一遍编码的 FFmpeg 参数，两遍编码时为 2 项 */
+  passes: string[][];
+  /** 输入文件路径，使用 mountInputFile 挂载（或写入 MEMFS） */
+  inputFile: string;
+  /** 输出文件在 MEMFS 中的路径 */
+  outputFile: string;
+  /** 执行后需要清理的 MEMFS 文件（含两遍编码统计文件，不含输入） */
+  tempFiles: string[];
+  /** 输出 MIME 类型 */
+  mimeType: string;
+  /** 实际使用的视频编码与速度档位，GIF 为 null */
+  video: { codec: VideoCodecId; encoder: string; speed: string } | null;
+  /** 码率计划，CRF 模式与 GIF 为 null */
+  bitrate: BitratePlan | null;
+  /** 实际的音频处理（已应用回退与预算） */
+  audio: AudioPlan;
+  /** 预计输出大小（字节），CRF 模式与 GIF 无法预估时为 null */
+  expectedSize: number | null;
+  /** 输出尺寸与帧率（帧率未知时为 null） */
+  output: { width: number; height: number; fps: number | null };
+  /** 编码时长（秒），裁剪后为片段长度 */
+  duration: number;
+  /** 预计 wasm 内存占用（字节），用于开始前提示内存不足 */
+  estimatedMemory: number;
+  /** 分段编码计划，整段编码时为 null（此时执行 passes） */
+  segmented: SegmentedPlan | null;
+}
+
+/**
+ * 分段编码中的一个片段
+ */
+export interface CompressionSegment {
+  index: number;
+  /** 源视频中的起止时间（秒），对齐到帧 */
+  start: number;
+  end: number;
+  /** 每一遍编码的参数（仅视频） */
+  passes: string[][];
+  /** 片段输出在 MEMFS 中的文件名，也是拼接时挂载的文件名 */
+  outputFile: string;
+  /** 片段完成后需要清理的 MEMFS 文件 */
+  tempFiles: string[];
+}
+
+/**
+ * 分段编码计划
+ *
+ * 每个片段单独编码，内存占用与片段时长而不是视频总时长相关；片段以关键帧开始，
+ * 可以用 concat demuxer 无损拼接。音轨整段单独处理，避免每段 AAC 的编码延迟
+ * 在拼接处产生断音。
+ */
+export interface SegmentedPlan {
+  segments: CompressionSegment[];
+  /** 音轨的处理参数，没有音频时为 null */
+  audio: { args: string[]; outputFile: string } | null;
+  /** 拼接时挂载片段与音轨输出的目录 */
+  mountDir: string;
+  /** concat demuxer 列表文件的路径与内容 */
+  listFile: string;
+  list: string;
+  /** 拼接并封装音轨的参数，输出到计划的 outputFile */
+  concatArgs: string[];
+}
+
+/**
+ * 可压缩性分析
+ */
+export interface CompressibilityAnalysis {
+  videoKbps: number;
+  fps: number;
+  /** 使用了 DEFAULT_FPS */
+  fpsAssumed: boolean;
+  sourceCodec: string | null;
+  /** 源视频已接近其编码的画质下限 */
+  efficient: boolean;
+  /** 输出编码比源编码需要更多码率 */
+  growthRisk: boolean;
+  /** 不低于画质下限的最小压缩比例 */
+  recommendedRatio: number;
+}
+
+/**
+ * 计算码率 (kbps)
+ */
+function calculateBitrate(fileSize: number, duration: number): number {
+  if (duration <= 0) return 0;
+  return (fileSize * 8) / (duration * 1000);
+}
+
+/**
+ * 分析视频的压缩空间（考虑编码与帧率）
+ *
+ * 两侧的 bpp 都换算为 H.264 基准：0.05 bpp 的 HEVC 源相当于约 0.08 的 H.264，
+ * 而重新编码为 H.264 需要约 1.7 倍码率才能保持相同画质。
+ *
+ * @returns 时长或尺寸未知时返回 null
+ */
+export function analyzeCompressibility(
+  input: CompressionInput,
+  outputCodec: VideoCodecId,
+): CompressibilityAnalysis | null {
+  const { duration, width, height } = input;
+  if (duration <= 0 || width <= 0 || height <= 0) return null;
+
+  const stream = input.media?.video ?? null;
+  const audioKbps = input.media?.audio?.bitrate ?? 0;
+  const videoKbps =
+    stream?.bitrate ??
+    Math.max(0, calculateBitrate(input.size, duration) - audioKbps);
+  const fps = stream?.fps ?? DEFAULT_FPS;
+
+  // BPP = 码率 (bps) / (宽 * 高 * 帧率)
+  const bpp = (videoKbps * 1000) / (width * height * fps);
+  const sourceEfficiency = stream ? getSourceCodecEfficiency(stream.codec) : 1;
+  const outputEfficiency = VIDEO_CODECS[outputCodec].efficiency;
+
+  // 100% 比例时输出的 bpp（H.264 基准），随比例线性变化
+  const outputBppAtFull = bpp / outputEfficiency;
+  const minRatio = (HIGH_COMPRESSION_BPP_THRESHOLD / outputBppAtFull) * 100;
+
+  return {
+    videoKbps,
+    fps,
+    fpsAssumed: !stream?.fps,
+    sourceCodec: stream?.codec ?? null,
+    efficient: bpp / sourceEfficiency < HIGH_COMPRESSION_BPP_THRESHOLD,
+    growthRisk: outputEfficiency > sourceEfficiency,
+    // 向上取整到 5%，不低于 10%
+    recommendedRatio: Math.min(100, Math.max(10, Math.ceil(minRatio / 5) * 5)),
+  };
+}
+
+/**
+ * 实际编码的时长（秒）
+ */
+export function getClipDuration(
+  input: CompressionInput,
+  trim: TrimSettings | null,
+): number {
+  return trim ? trim.end - trim.start : input.duration;
+}
+
+/**
+ * 裁剪范围的输入参数
+ *
+ * 放在 -i 之前：FFmpeg 先跳到最近的关键帧再解码到精确的帧，
+ * 既保证帧级精度，又跳过入点之前的大部分解码。
+ */
+function getTrimArgs(trim: TrimSettings | null): string[] {
+  if (!trim) return [];
+  return ["-ss", trim.start.toFixed(3), "-to", trim.end.toFixed(3)];
+}
+
+/**
+ * 动态码率上限：根据时长限制最大码率
+ * - 短视频 (<=30s)：允许高码率，精确控制大小
+ * - 中等视频 (<=2m)：兼顾画质与性能
+ * - 长视频 (<=5m)：限制码率保证性能
+ * - 超长视频 (>5m)：严格限制，避免浏览器卡顿
+ */
+function getMaxBitrate(duration: number): number {
+  if (duration <= 30) return 30000; // 30 秒内：30 Mbps
+  if (duration <= 120) return 20000; // 2 分钟内：20 Mbps
+  if (duration <= 300) return 10000; // 5 分钟内：10 Mbps
+  return 5000; // 长视频：5 Mbps
+}
+
+/**
+ * 确定音轨的处理方式
+ *
+ * "keep" 在封装格式支持且不是无损编码时直接复制源音轨，否则重新编码。
+ */
+export function resolveAudio(
+  input: CompressionInput,
+  format: OutputFormat,
+  audio: AudioSettings,
+): AudioPlan {
+  const source = input.media?.audio ?? null;
+  // 没有音频流或探测失败无法确认时不处理音轨，
+  // 否则分段编码的音频提取与拼接（-map 1:a）会因找不到流而失败
+  if (!format.audio || audio.mode === "remove" || !source) {
+    return { action: "none" };
+  }
+
+  if (audio.mode === "keep") {
+    const codec = source.codec;
+    if (!canCopyAudio(format, codec)) {
+      return {
+        action: "encode",
+        kbps: audio.kbps,
+        mono: false,
+        fallback: "incompatible",
+      };
+    }
+    if (codec && isLosslessAudio(codec)) {
+      return {
+        action: "encode",
+        kbps: audio.kbps,
+        mono: false,
+        fallback: "lossless",
+      };
+    }
+    return { action: "copy", kbps: source.bitrate };
+  }
+
+  return {
+    action: "encode",
+    kbps: audio.kbps,
+    mono: audio.mode === "mono",
+    fallback: null,
+  };
+}
+
+/**
+ * 音频计划的码率 (kbps)，复制的音轨码率未知时为 null
+ */
+function getAudioKbps(audio: AudioPlan): number | null {
+  return audio.action === "none" ? 0 : audio.kbps;
+}
+
+/**
+ * 按大小模式规划视频与音频码率
+ */
+export function planBitrate(
+  input: CompressionInput,
+  options: BitrateOptions,
+): BitratePlan {
+  const duration = getClipDuration(input, options.trim);
+  // 保留片段在原始大小中的占比，按恒定码率估算
+  const originalSize =
+    input.size * (input.duration > 0 ? duration / input.duration : 1); // 字节
+  // 高效编码以更低码率达到 H.264 相同画质，上限与下限都按效率缩放
+  const { efficiency } = VIDEO_CODECS[options.codec];
+  // 分段编码时每次只编码一个片段，码率上限按片段时长计算
+  const encodeDuration = options.segmentSeconds
+    ? Math.min(duration, options.segmentSeconds)
+    : duration;
+  const maxBitrate = Math.floor(getMaxBitrate(encodeDuration) * efficiency);
+  const minBitrate = Math.floor(MIN_VIDEO_BITRATE_KBPS * efficiency);
+  const audio = resolveAudio(
+    input,
+    OUTPUT_FORMATS[options.format],
+    options.audio,
+  );
+
+  if (options.sizeMode === "ratio") {
+    const { ratio } = options;
+    /**
+     * 比例模式：
+     * 1. 目标总大小 (bits) = 原始大小 * 8 * 比例
+     * 2. 目标总码率 (bps) = 目标总大小 / 时长
+     * 3. 视频码率 = 总码率 - 封装开销 - 音频码率
+     *    （复制的音轨码率未知时，为音频与封装预留 10%）
+     */
+    const targetTotalBitrateBps =
+      duration > 0 ? (originalSize * 8 * (ratio / 100)) / duration : 0;
+    const audioKbps = getAudioKbps(audio);
+    const videoBitrateKbps = Math.floor(
+      audioKbps === null
+        ? (targetTotalBitrateBps * 0.9) / 1000
+        : (targetTotalBitrateBps * (1 - CONTAINER_OVERHEAD)) / 1000 - audioKbps,
+    );
+
+    // 兜底：码率不能过低（H.264 至少 100kbps），上限随时长动态调整
+    const videoKbps = Math.max(
+      minBitrate,
+      Math.min(maxBitrate, videoBitrateKbps),
+    );
+    // 按实际使用的码率估算：码率被钳制时输出会偏离比例
+    // （复制的音轨码率未知时，沿用上面预留的 10%）
+    const expectedAudioKbps = audioKbps ?? (targetTotalBitrateBps * 0.1) / 1000;
+
+    return {
+      videoKbps,
+      audio,
+      expectedSize:
+        ((videoKbps + expectedAudioKbps) * 1000 * duration) /
+        8 /
+        (1 - CONTAINER_OVERHEAD),
+      targetSize: null,
+      effectiveRatio: ratio,
+      feasible: true,
+    };
+  }
+
+  /**
+   * 目标大小模式（硬性上限）：
+   * 1. 可用字节 = 目标 - 封装开销 - ABR 超调余量
+   * 2. 音频需要已知码率：预算紧张时下调所选码率，
+   *    复制的音轨码率未知或过大时改为重新编码
+   * 3. 剩余部分全部分给视频
+   */
+  const targetSize = options.targetSizeMB * BYTES_PER_MB;
+  const usableBits =
+    targetSize * (1 - CONTAINER_OVERHEAD) * TARGET_SIZE_SAFETY * 8;
+  const totalKbps = duration > 0 ? usableBits / duration / 1000 : 0;
+
+  const maxAudioKbps =
+    AUDIO_BITRATE_STEPS_KBPS.find(
+      (kbps) => kbps <= totalKbps * MAX_AUDIO_SHARE,
+    ) ?? AUDIO_BITRATE_STEPS_KBPS[AUDIO_BITRATE_STEPS_KBPS.length - 1];
+  let budgetAudio = audio;
+  if (audio.action === "encode") {
+    budgetAudio = { ...audio, kbps: Math.min(audio.kbps, maxAudioKbps) };
+  } else if (
+    audio.action === "copy" &&
+    (audio.kbps === null || audio.kbps > maxAudioKbps)
+  ) {
+    budgetAudio = {
+      action: "encode",
+      kbps: maxAudioKbps,
+      mono: false,
+      fallback: "budget",
+    };
+  }
+  const audioKbps = getAudioKbps(budgetAudio) ?? 0;
+  const videoBitrateKbps = Math.floor(totalKbps - audioKbps);
+  const videoKbps = Math.max(
+    minBitrate,
+    Math.min(maxBitrate, videoBitrateKbps),
+  );
+
+  return {
+    videoKbps,
+    audio: budgetAudio,
+    expectedSize: Math.min(
+      targetSize,
+      ((videoKbps + audioKbps) * 1000 * duration) /
+        8 /
+        (1 - CONTAINER_OVERHEAD),
+    ),
+    targetSize,
+    effectiveRatio: originalSize > 0 ? (targetSize / originalSize) * 100 : 100,
+    feasible: videoBitrateKbps >= minBitrate,
+  };
+}
+
+/**
+ * 码率计划对应的码控参数
+ */
+function getBitrateArgs(plan: BitratePlan): string[] {
+  const finalBitrate = plan.videoKbps;
+  // 硬性上限时峰值不超过平均码率，否则允许 +20%
+  const peakBitrate =
+    plan.targetSize !== null ? finalBitrate : Math.floor(finalBitrate * 1.2);
+
+  return [
+    "-b:v",
+    `${finalBitrate}k`,
+    "-bufsize",
+    `${finalBitrate * 2}k`, // 码率控制缓冲
+    "-maxrate",
+    `${peakBitrate}k`, // 峰值码率
+  ];
+}
+
+/**
+ * 按分辨率预设计算输出尺寸，不会放大
+ *
+ * auto 沿用原有缩放规则（D5：>= 60% 保持，40-60% 最大 1920，< 40% 最大 1280）。
+ * 阈值以 H.264 为基准：高效编码在相同码率下保留更多细节。
+ */
+function getOutputSize(
+  input: CompressionInput,
+  options: CompressionOptions,
+  plan: BitratePlan | null,
+): { width: number; height: number } {
+  const { width, height } = input;
+  const longEdge = Math.max(width, height);
+  const shortEdge = Math.min(width, height);
+  const { preset, customWidth } = options.resolution;
+
+  let scale = 1;
+  if (preset === "auto") {
+    const effectiveRatio = Math.min(
+      100,
+      (plan?.effectiveRatio ?? 100) / VIDEO_CODECS[options.codec].efficiency,
+    );
+    if (effectiveRatio < 40) scale = 1280 / longEdge;
+    else if (effectiveRatio < 60) scale = 1920 / longEdge;
+  } else if (preset === "custom") {
+    scale = customWidth / width;
+  } else if (preset !== "original") {
+    const box = RESOLUTION_BOXES[preset];
+    scale = Math.min(box.long / longEdge, box.short / shortEdge);
+  }
+
+  if (scale >= 1 || width <= 0 || height <= 0) return { width, height };
+  // yuv420p 需要偶数尺寸
+  return {
+    width: Math.max(2, Math.round((width * scale) / 2) * 2),
+    height: Math.max(2, Math.round((height * scale) / 2) * 2),
+  };
+}
+
+/**
+ * 应用帧率上限后的帧率，源帧率未知且未设上限时为 null
+ */
+function getOutputFps(
+  input: CompressionInput,
+  fpsCap: number | null,
+): number | null {
+  const fps = input.media?.video?.fps ?? null;
+  if (fpsCap === null) return fps;
+  return fps === null ? fpsCap : Math.min(fps, fpsCap);
+}
+
+/**
+ * 输出尺寸与帧率对应的滤镜链，无需改变时为 null
+ */
+function getVideoFilter(
+  input: CompressionInput,
+  options: CompressionOptions,
+  size: { width: number; height: number },
+): string | null {
+  const filters: string[] = [];
+  const fps = input.media?.video?.fps ?? null;
+  // 先丢帧再缩放；源帧率未知时同样应用上限
+  if (options.fpsCap !== null && (fps === null || fps > options.fpsCap)) {
+    filters.push(`fps=${options.fpsCap}`);
+  }
+  if (size.width !== input.width || size.height !== input.height) {
+    filters.push(`scale=${size.width}:${size.height}`);
+  }
+  return filters.length > 0 ? filters.join(",") : null;
+}
+
+/**
+ * 音频计划对应的参数，使用封装格式的音频编码器
+ */
+function getAudioArgs(format: OutputFormat, audio: AudioPlan): string[] {
+  if (audio.action === "none" || !format.audio) return ["-an"];
+  if (audio.action === "copy") return ["-c:a", "copy"];
+  return [
+    "-c:a",
+    format.audio.encoder,
+    "-b:a",
+    `${audio.kbps}k`,
+    ...(audio.mono ? ["-ac", "1"] : []),
+  ];
+}
+
+/**
+ * 补全预设的默认值并选择当前核心可用的编码器实现
+ *
+ * 页面之外的入口（compressVideo、命令行）共用，保证相同预设得到相同参数
+ *
+ * @param input - 输入文件信息，用于判断音轨是否需要重新编码；
+ *   省略时只要不去除音轨就要求音频编码器可用
+ * @throws 格式与编码组合不可用时
+ */
+export function resolveCompressionOptions(
+  options: CompressionPreset,
+  encoders: readonly string[],
+  input?: CompressionInput,
+): CompressionOptions {
+  const format = OUTPUT_FORMATS[options.format ?? "mp4"];
+  const codec = VIDEO_CODECS[options.codec ?? format.videoCodecs[0] ?? "h264"];
+  const audio = options.audio ?? {
+    mode: "keep" as const,
+    kbps: AUDIO_BITRATE_STEPS_KBPS[0],
+  };
+  const encodesAudio = input
+    ? resolveAudio(input, format, audio).action === "encode"
+    : audio.mode !== "remove";
+  const issue = validateOutput(format, codec.id, encoders, encodesAudio);
+  if (issue) {
+    throw new Error(`不支持的输出组合 (${format.id} / ${codec.id}): ${issue}`);
+  }
+
+  const common = {
+    twoPass: options.twoPass ?? false,
+    audio,
+    format: format.id,
+    codec: codec.id,
+    // GIF 不使用视频编码器，占位即可
+    encoder: getEncoderImpl(codec, encoders) ?? codec.encoders[0],
+    trim: options.trim ?? null,
+    resolution: options.resolution ?? {
+      preset: "auto" as const,
+      customWidth: 0,
+    },
+    fpsCap: options.fpsCap ?? null,
+    segmentSeconds: options.segmentSeconds ?? null,
+  };
+
+  switch (options.sizeMode) {
+    case "target":
+      return {
+        ...common,
+        sizeMode: "target",
+        targetSizeMB: options.targetSizeMB,
+      };
+    case "quality":
+      return {
+        ...common,
+        sizeMode: "quality",
+        crf: options.crf ?? codec.crf.default,
+      };
+    default:
+      return {
+        ...common,
+        sizeMode: "ratio",
+        ratio: options.ratio ?? DEFAULT_RATIO,
+      };
+  }
+}
+
+/**
+ * 计算分段编码的片段范围
+ *
+ * 片段数按目标时长取整后平均分配，避免末尾出现很短的片段；
+ * 分界点对齐到输出帧，相邻片段既不重复也不遗漏帧。
+ *
+ * @param fps - 输出帧率，未知时按 DEFAULT_FPS 对齐
+ * @returns 片段的起止时间，片段数不足 2 时不需要分段
+ */
+function getSegmentBounds(
+  input: CompressionInput,
+  options: CompressionOptions,
+  segmentSeconds: number,
+  fps: number | null,
+): [number, number][] {
+  const start = options.trim?.start ?? 0;
+  const duration = getClipDuration(input, options.trim);
+  const count = Math.round(duration / segmentSeconds);
+  if (segmentSeconds <= 0 || count < 2) return [];
+
+  const frame = 1 / (fps ?? DEFAULT_FPS);
+  const snap = (time: number) => Math.round(time / frame) * frame;
+  const points = Array.from({ length: count + 1 }, (_, index) =>
+    index === count
+      ? start + duration
+      : start + snap((duration * index) / count),
+  );
+  return points.slice(1).map((end, index) => [points[index], end]);
+}
+
+/**
+ * 预估执行压缩计划所需的 wasm 内存
+ *
+ * 包括基础占用、解码与编码的帧缓冲，以及写入 MEMFS 的输出文件。
+ * 输入通过 WORKERFS 挂载，不占用 wasm 内存。
+ *
+ * @param outputSize - 输出文件大小（字节）
+ */
+function estimateMemory(
+  input: CompressionInput,
+  output: { width: number; height: number },
+  outputSize: number,
+): number {
+  const frameBytes = (width: number, height: number) =>
+    width * height * YUV420_BYTES_PER_PIXEL;
+  return Math.round(
+    BASE_MEMORY +
+      frameBytes(input.width, input.height) * DECODER_FRAME_BUFFERS +
+      frameBytes(output.width, output.height) * ENCODER_FRAME_BUFFERS +
+      outputSize,
+  );
+}
+
+/**
+ * 生成压缩计划
+ *
+ * 输入文件需要先挂载到 `inputFile`（mountInputFile），然后依次执行 `passes`，
+ * 最后读取 `outputFile`、清理 `tempFiles` 并卸载输入。
+ *
+ * @param input - 输入文件信息
+ * @param options - 压缩选项
+ */
+export function buildCompressionPlan(
+  input: CompressionInput,
+  options: CompressionOptions,
+): CompressionPlan {
+  const format = OUTPUT_FORMATS[options.format];
+  const { encoder } = options;
+  const outputFile = `output.${format.extension}`;
+  const duration = getClipDuration(input, options.trim);
+  const trimArgs = getTrimArgs(options.trim);
+  const inputArgs = [...trimArgs, "-i", INPUT_FILE];
+
+  // GIF 使用专用的调色板流程：没有码控与音频
+  if (format.id === "gif") {
+    const width = Math.min(GIF_MAX_WIDTH, input.width);
+    const height =
+      input.width > 0
+        ? Math.round((input.height * width) / input.width)
+        : input.height;
+    const gifSize = width * height * GIF_FPS * duration * GIF_BYTES_PER_PIXEL;
+    return {
+      passes: [[...inputArgs, "-vf", GIF_FILTER, "-loop", "0", outputFile]],
+      inputFile: INPUT_FILE,
+      outputFile,
+      tempFiles: [outputFile],
+      mimeType: format.mimeType,
+      video: null,
+      bitrate: null,
+      audio: { action: "none" },
+      expectedSize: null,
+      output: { width, height, fps: GIF_FPS },
+      duration,
+      estimatedMemory: estimateMemory(input, { width, height }, gifSize),
+      segmented: null,
+    };
+  }
+
+  // CRF 模式没有码率计划，由 CRF 决定大小
+  let bitrate: BitratePlan | null = null;
+  let rateArgs: string[];
+  if (options.sizeMode === "quality") {
+    rateArgs = encoder.qualityArgs(options.crf);
+  } else {
+    bitrate = planBitrate(input, options);
+    rateArgs = getBitrateArgs(bitrate);
+  }
+  const audio = bitrate?.audio ?? resolveAudio(input, format, options.audio);
+
+  const size = getOutputSize(input, options, bitrate);
+  const videoFilter = getVideoFilter(input, options, size);
+  const videoArgs = [
+    "-c:v",
+    encoder.name,
+    ...rateArgs,
+    ...encoder.speedArgs,
+    "-pix_fmt",
+    "yuv420p",
+    "-threads",
+    "4",
+    ...getFormatArgs(format, options.codec),
+    ...(videoFilter ? ["-vf", videoFilter] : []),
+  ];
+  const outputArgs = [
+    "-max_muxing_queue_size",
+    "1024",
+    ...getAudioArgs(format, audio),
+    outputFile,
+  ];
+
+  // 两遍编码只适用于码率模式
+  const buildPasses = (
+    inArgs: string[],
+    outArgs: string[],
+    logPrefix: string,
+  ): string[][] =>
+    options.twoPass && bitrate
+      ? [
+          // 第一遍只做分析，码控统计保存在 MEMFS
+          [
+            ...inArgs,
+            ...videoArgs,
+            ...encoder.passArgs(1, logPrefix),
+            "-an",
+            "-f",
+            "null",
+            "/dev/null",
+          ],
+          // 第二遍使用统计信息正式编码
+          [
+            ...inArgs,
+            ...videoArgs,
+            ...encoder.passArgs(2, logPrefix),
+            ...outArgs,
+          ],
+        ]
+      : [[...inArgs, ...videoArgs, ...outArgs]];
+  const passes = buildPasses(inputArgs, outputArgs, PASS_LOG_PREFIX);
+  const fps = getOutputFps(input, options.fpsCap);
+
+  // CRF 模式无法预估大小，按源文件同时长部分计算（通常偏大）
+  const outputSize =
+    bitrate?.expectedSize ??
+    (input.duration > 0 ? (input.size * duration) / input.duration : 0);
+
+  const bounds = options.segmentSeconds
+    ? getSegmentBounds(input, options, options.segmentSeconds, fps)
+    : [];
+  let segmented: SegmentedPlan | null = null;
+  if (bounds.length > 1) {
+    const segments = bounds.map(([start, end], index) => {
+      const name = `segment-${String(index).padStart(3, "0")}.${format.extension}`;
+      const logPrefix = `${PASS_LOG_PREFIX}-${index}`;
+      return {
+        index,
+        start,
+        end,
+        passes: buildPasses(
+          [...getTrimArgs({ start, end }), "-i", INPUT_FILE],
+          ["-max_muxing_queue_size", "1024", "-an", name],
+          logPrefix,
+        ),
+        outputFile: name,
+        tempFiles: [name, ...encoder.passLogFiles(logPrefix)],
+      };
+    });
+    const audioFile = `audio.${format.extension}`;
+    const files = segments.map((segment) => segment.outputFile);
+    segmented = {
+      segments,
+      audio:
+        audio.action === "none"
+          ? null
+          : {
+              args: [
+                ...inputArgs,
+                "-vn",
+                ...getAudioArgs(format, audio),
+                audioFile,
+              ],
+              outputFile: audioFile,
+            },
+      mountDir: SEGMENT_DIR,
+      listFile: CONCAT_LIST_FILE,
+      list: files.map((file) => `file '${SEGMENT_DIR}/${file}'\n`).join(""),
+      concatArgs: [
+        "-f",
+        "concat",
+        "-safe",
+        "0",
+        "-i",
+        CONCAT_LIST_FILE,
+        ...(audio.action === "none"
+          ? ["-map", "0:v"]
+          : [
+              "-i",
+              `${SEGMENT_DIR}/${audioFile}`,
+              "-map",
+              "0:v",
+              "-map",
+              "1:a",
+            ]),
+        "-c",
+        "copy",
+        ...getFormatArgs(format, options.codec),
+        outputFile,
+      ],
+    };
+  }
+
+  return {
+    passes,
+    inputFile: INPUT_FILE,
+    outputFile,
+    tempFiles: [outputFile, ...encoder.passLogFiles(PASS_LOG_PREFIX)],
+    mimeType: format.mimeType,
+    video: {
+      codec: options.codec,
+      encoder: encoder.name,
+      speed: encoder.speedLabel,
+    },
+    bitrate,
+    audio,
+    expectedSize: bitrate?.expectedSize ?? null,
+    output: { ...size, fps },
+    duration,
+    // 分段编码时取编码单个片段与最终拼接两者的较大值
+    estimatedMemory: segmented
+      ? Math.max(
+          estimateMemory(input, size, outputSize / bounds.length),
+          BASE_MEMORY + outputSize,
+        )
+      : estimateMemory(input, size, outputSize),
+    segmented,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * FFmpeg 核心文件缓存
+ *
+ * 使用 Cache Storage 缓存已下载的核心文件，缓存名称包含 FFMPEG_CORE_VERSION，
+ * 版本变化后旧缓存会被清理，从而保证首次访问后可以离线加载。
+ */
+
+/** 所有核心文件缓存共享的前缀 */
+const FFMPEG_CACHE_PREFIX = "compressmp4-ffmpeg-core-";
+
+/**
+ * 检查浏览器是否支持 Cache Storage（需要安全上下文）
+ */
+export function isCacheStorageSupported(): boolean {
+  return typeof caches !== "undefined";
+}
+
+/**
+ * 获取指定核心版本的缓存名称
+ */
+export function getFFmpegCacheName(version: string): string {
+  return `${FFMPEG_CACHE_PREFIX}v${version}`;
+}
+
+/**
+ * 读取文件，优先命中缓存
+ *
+ * 未命中时从网络下载，并在后台写入缓存（不阻塞调用方读取响应体）
+ *
+ * @param signal - 中止下载
+ */
+export async function fetchWithCache(
+  url: string,
+  version: string,
+  signal?: AbortSignal,
+): Promise<Response> {
+  if (!isCacheStorageSupported()) {
+    return fetch(url, { signal });
+  }
+
+  const cache = await caches.open(getFFmpegCacheName(version));
+  const cached = await cache.match(url);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(url, { signal });
+  if (response.ok) {
+    cache.put(url, response.clone()).catch((error) => {
+      console.warn("[FFmpeg] 写入缓存失败:", error);
+    });
+  }
+  return response;
+}
+
+/**
+ * 删除其他版本的核心文件缓存
+ *
+ * @returns 被删除的缓存名称
+ */
+export async function clearStaleFFmpegCaches(
+  version: string,
+): Promise<string[]> {
+  if (!isCacheStorageSupported()) return [];
+
+  const current = getFFmpegCacheName(version);
+  const stale = (await caches.keys()).filter(
+    (name) => name.startsWith(FFMPEG_CACHE_PREFIX) && name !== current,
+  );
+  await Promise.all(stale.map((name) => caches.delete(name)));
+  return stale;
+}
+
+/**
+ * 删除所有核心文件缓存（用于手动排查缓存问题）
+ */
+export async function clearFFmpegCache(): Promise<void> {
+  if (!isCacheStorageSupported()) return;
+
+  const names = (await caches.keys()).filter((name) =>
+    name.startsWith(FFMPEG_CACHE_PREFIX),
+  );
+  await Promise.all(names.map((name) => caches.delete(name)));
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { classifyFFmpegFailure, createLogBuffer } from "./ffmpeg-log";
+
+describe("createLogBuffer", () => {
+  it("keeps lines in order until it is full", () => {
+    const buffer = createLogBuffer(3);
+    buffer.push("a");
+    buffer.push("b");
+
+    expect(buffer.lines()).toEqual(["a", "b"]);
+  });
+
+  it("drops the oldest lines after wrapping around", () => {
+    const buffer = createLogBuffer(3);
+    for (const line of ["a", "b", "c", "d", "e"]) buffer.push(line);
+
+    expect(buffer.lines()).toEqual(["c", "d", "e"]);
+
+    // 再写满一圈，起点回到数组开头
+    for (const line of ["f", "g", "h"]) buffer.push(line);
+    expect(buffer.lines()).toEqual(["f", "g", "h"]);
+  });
+
+  it("starts over after clear", () => {
+    const buffer = createLogBuffer(2);
+    for (const line of ["a", "b", "c"]) buffer.push(line);
+    buffer.clear();
+    buffer.push("d");
+
+    expect(buffer.lines()).toEqual(["d"]);
+  });
+});
+
+describe("classifyFFmpegFailure", () => {
+  it("recognises each failure kind from its log line", () => {
+    const cases: [string, string][] = [
+      ["Aborted(OOM)", "out-of-memory"],
+      ["[mov,mp4,m4a,3gp,3g2,mj2 @ 0x1] moov atom not found", "corrupt-input"],
+      ["Output file #0 does not contain any stream", "missing-audio"],
+      ["Stream map '0:a' matches no streams.", "missing-audio"],
+      ["Unknown encoder 'libx265'", "unsupported-codec"],
+    ];
+    for (const [line, kind] of cases) {
+      expect(classifyFFmpegFailure(["frame=1", line])).toEqual({
+        kind,
+        evidence: line,
+      });
+    }
+  });
+
+  it("reports out-of-memory before the errors it causes", () => {
+    const lines = [
+      "Error while opening encoder for output stream #0:0",
+      "Invalid data found when processing input",
+      "Cannot enlarge memory, requested 2214592512 bytes",
+    ];
+
+    expect(classifyFFmpegFailure(lines)).toEqual({
+      kind: "out-of-memory",
+      evidence: "Cannot enlarge memory, requested 2214592512 bytes",
+    });
+  });
+
+  it("prefers a corrupt input over the codec errors that follow it", () => {
+    const lines = [
+      "Could not find codec parameters for stream 0 (Video: h264)",
+      "moov atom not found",
+    ];
+
+    expect(classifyFFmpegFailure(lines).kind).toBe("corrupt-input");
+  });
+
+  it("uses the thrown error when the log has no evidence", () => {
+    expect(
+      classifyFFmpegFailure(
+        ["frame=  10 fps=0.0"],
+        new RangeError("Array buffer allocation failed"),
+      ),
+    ).toEqual({
+      kind: "out-of-memory",
+      evidence: "Array buffer allocation failed",
+    });
+    expect(classifyFFmpegFailure([], "Aborted(OOM)").kind).toBe(
+      "out-of-memory",
+    );
+  });
+
+  it("returns unknown without a match", () => {
+    expect(
+      classifyFFmpegFailure(["Conversion failed!"], new Error("exit code 1")),
+    ).toEqual({ kind: "unknown", evidence: null });
+  });
+});
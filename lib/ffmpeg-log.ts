@@ -0,0 +1,115 @@
+/**
+ * FFmpeg 日志与失败诊断
+ *
+ * 保存最近的日志行用于错误报告，并从日志中识别常见的失败原因，
+ * 让界面给出可操作的提示，而不是笼统的“压缩失败”。
+ */
+
+/** 每个任务保留的日志行数，超出后丢弃最早的行 */
+export const LOG_BUFFER_LINES = 2000;
+
+/**
+ * 固定容量的日志缓冲区（环形缓冲）
+ */
+export interface LogBuffer {
+  push(line: string): void;
+  /** 按时间顺序返回保留的日志行 */
+  lines(): string[];
+  clear(): void;
+}
+
+/**
+ * 创建日志缓冲区
+ *
+ * @param capacity - 最多保留的行数
+ */
+export function createLogBuffer(capacity = LOG_BUFFER_LINES): LogBuffer {
+  const buffer: string[] = [];
+  // 缓冲区写满后下一次写入的位置（即最早的一行）
+  let head = 0;
+  return {
+    push(line) {
+      if (buffer.length < capacity) {
+        buffer.push(line);
+      } else {
+        buffer[head] = line;
+        head = (head + 1) % capacity;
+      }
+    },
+    lines: () => [...buffer.slice(head), ...buffer.slice(0, head)],
+    clear() {
+      buffer.length = 0;
+      head = 0;
+    },
+  };
+}
+
+/**
+ * 失败类型
+ *
+ * - `unsupported-codec`：输入无法解码，或当前核心没有所需的编码器
+ * - `out-of-memory`：wasm 内存不足
+ * - `missing-audio`：要求处理音轨，但输入没有音频流
+ * - `corrupt-input`：容器损坏，如录制中断导致缺少 moov atom
+ * - `unknown`：无法识别
+ */
+export type FFmpegFailureKind =
+  | "unsupported-codec"
+  | "out-of-memory"
+  | "missing-audio"
+  | "corrupt-input"
+  | "unknown";
+
+/**
+ * 失败诊断结果
+ */
+export interface FFmpegFailure {
+  kind: FFmpegFailureKind;
+  /** 作为依据的日志行（或错误信息），unknown 时为 null */
+  evidence: string | null;
+}
+
+/**
+ * 各失败类型的日志特征，按优先级排列
+ *
+ * 内存不足往往会连带产生其他报错，因此最先匹配
+ */
+const FAILURE_PATTERNS: [FFmpegFailureKind, RegExp][] = [
+  [
+    "out-of-memory",
+    /Aborted\(OOM\)|Cannot enlarge memory|out of memory|Cannot allocate memory|Array buffer allocation failed/i,
+  ],
+  [
+    "corrupt-input",
+    /moov atom not found|Invalid data found when processing input|invalid STSD entries|error reading header/i,
+  ],
+  [
+    "missing-audio",
+    /does not contain any stream|matches no streams|Output file #\d+ does not contain any stream/i,
+  ],
+  [
+    "unsupported-codec",
+    /Unknown encoder|Encoder not found|Decoder \(codec [^)]+\) not found|Unsupported codec|Could not find codec parameters|Could not find tag for codec|not currently supported in container|Error while opening (?:encoder|decoder)/i,
+  ],
+];
+
+/**
+ * 根据日志与抛出的错误识别失败原因
+ *
+ * @param lines - 任务的日志行
+ * @param error - exec 或读取输出时抛出的错误（内存不足时 wasm 直接中止，日志中可能没有记录）
+ */
+export function classifyFFmpegFailure(
+  lines: string[],
+  error?: unknown,
+): FFmpegFailure {
+  const candidates = [...lines];
+  if (error instanceof Error) candidates.push(error.message);
+  else if (typeof error === "string") candidates.push(error);
+
+  for (const [kind, pattern] of FAILURE_PATTERNS) {
+    const evidence = candidates.find((line) => pattern.test(line));
+    if (evidence) return { kind, evidence };
+  }
+  return { kind: "unknown", evidence: null };
+}
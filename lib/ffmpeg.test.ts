@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { parseStatsLine } from "./ffmpeg";
+
+describe("parseStatsLine", () => {
+  it("parses a regular stats line", () => {
+    expect(
+      parseStatsLine(
+        "frame=  300 fps= 42 q=28.0 size=    1024kB time=00:00:10.00 bitrate= 838.9kbits/s speed=1.41x",
+      ),
+    ).toEqual({ time: 10, fps: 42, speed: 1.41, size: 1024 * 1024 });
+  });
+
+  it("reads KiB sizes from FFmpeg 6.1 and later", () => {
+    const stats = parseStatsLine(
+      "frame=   60 fps=0.0 q=-1.0 size=     256KiB time=00:00:02.02 bitrate=1038.1kbits/s speed=4.03x elapsed=0:00:00.50",
+    );
+
+    expect(stats?.size).toBe(256 * 1024);
+    expect(stats?.time).toBeCloseTo(2.02);
+  });
+
+  it("counts hours in the timestamp", () => {
+    const stats = parseStatsLine(
+      "frame=97200 fps=120 q=30.0 size=  204800kB time=01:02:03.50 bitrate= 450.5kbits/s speed=2.5x",
+    );
+
+    expect(stats?.time).toBeCloseTo(3723.5);
+  });
+
+  it("keeps N/A fields unknown", () => {
+    expect(
+      parseStatsLine(
+        "frame=    0 fps=0.0 q=0.0 size=N/A time=00:00:00.00 bitrate=N/A speed=N/A",
+      ),
+    ).toEqual({ time: 0, fps: 0, speed: null, size: null });
+  });
+
+  it("returns null while time is N/A", () => {
+    expect(
+      parseStatsLine(
+        "frame=    0 fps=0.0 q=0.0 size=       0kB time=N/A bitrate=N/A speed=N/A",
+      ),
+    ).toBeNull();
+  });
+
+  it("clamps a negative start timestamp to zero", () => {
+    expect(
+      parseStatsLine(
+        "frame=    1 fps=0.0 q=0.0 size=       0kB time=-00:00:00.04 bitrate=N/A speed=N/A",
+      )?.time,
+    ).toBe(0);
+  });
+
+  it("ignores negative or empty speed", () => {
+    expect(
+      parseStatsLine(
+        "frame=   10 fps=5.0 q=28.0 size=      12kB time=00:00:00.33 bitrate= 297.9kbits/s speed=-0.0133x",
+      )?.speed,
+    ).toBeNull();
+    expect(
+      parseStatsLine(
+        "frame=   10 fps=5.0 q=28.0 size=      12kB time=00:00:00.33 bitrate= 297.9kbits/s speed=",
+      )?.speed,
+    ).toBeNull();
+  });
+
+  it("rejects lines that are not stats", () => {
+    expect(parseStatsLine("Press [q] to stop, [?] for help")).toBeNull();
+  });
+});
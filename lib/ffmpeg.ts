@@ -7,33 +7,118 @@
  * @see https://github.com/ffmpegwasm/ffmpeg.wasm
  */
 
-import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { toBlobURL } from "@ffmpeg/util";
+import { FFmpeg, type FFFSType } from "@ffmpeg/ffmpeg";
+import { clearStaleFFmpegCaches, fetchWithCache } from "./ffmpeg-cache";
 
 /** FFmpeg 核心版本，与 @ffmpeg/ffmpeg 0.12.x 兼容 */
-const FFMPEG_CORE_VERSION = "0.12.10";
+export const FFMPEG_CORE_VERSION = "0.12.10";
 
-/** CDN 基础 URL - 多线程版本 */
-const FFMPEG_CORE_MT_BASE_URL = `https://cdn.jsdelivr.net/npm/@ffmpeg/core-mt@${FFMPEG_CORE_VERSION}/dist/umd`;
+/**
+ * FFmpeg 核心文件来源
+ *
+ * 每个来源同时提供多线程 (@ffmpeg/core-mt) 与单线程 (@ffmpeg/core) 版本的基础 URL
+ */
+export interface FFmpegCoreSource {
+  /** 来源名称，用于日志 */
+  name: string;
+  /** 多线程版本基础 URL */
+  mtBaseURL: string;
+  /** 单线程版本基础 URL */
+  stBaseURL: string;
+}
 
-/** CDN 基础 URL - 单线程版本 (fallback) */
-const FFMPEG_CORE_ST_BASE_URL = `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`;
+/** 内置来源名称 */
+export type FFmpegCoreSourceName = "self" | "jsdelivr" | "unpkg";
 
-/** 备用 CDN URL (unpkg) - 多线程 */
-const FFMPEG_CORE_MT_FALLBACK = `https://unpkg.com/@ffmpeg/core-mt@${FFMPEG_CORE_VERSION}/dist/umd`;
+/**
+ * 内置的核心文件来源
+ *
+ * - self: 应用自身域名，文件由 scripts/copy-ffmpeg-core.mjs 在构建时复制到 public/ffmpeg
+ * - jsdelivr: 主 CDN
+ * - unpkg: 备用 CDN
+ */
+export const FFMPEG_CORE_SOURCES: Record<
+  FFmpegCoreSourceName,
+  FFmpegCoreSource
+> = {
+  self: {
+    name: "self",
+    mtBaseURL: "/ffmpeg/core-mt",
+    stBaseURL: "/ffmpeg/core",
+  },
+  jsdelivr: {
+    name: "jsdelivr",
+    mtBaseURL: `https://cdn.jsdelivr.net/npm/@ffmpeg/core-mt@${FFMPEG_CORE_VERSION}/dist/umd`,
+    stBaseURL: `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`,
+  },
+  unpkg: {
+    name: "unpkg",
+    mtBaseURL: `https://unpkg.com/@ffmpeg/core-mt@${FFMPEG_CORE_VERSION}/dist/umd`,
+    stBaseURL: `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`,
+  },
+};
 
-/** 备用 CDN URL (unpkg) - 单线程 */
-const FFMPEG_CORE_ST_FALLBACK = `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`;
+/**
+ * 解析逗号分隔的来源列表，如 "self,jsdelivr"
+ *
+ * 未知名称会被忽略；结果为空时回退到 CDN 来源
+ */
+export function parseFFmpegCoreSources(value?: string): FFmpegCoreSource[] {
+  const sources = (value ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is FFmpegCoreSourceName => name in FFMPEG_CORE_SOURCES)
+    .map((name) => FFMPEG_CORE_SOURCES[name]);
+
+  if (sources.length === 0) {
+    return [FFMPEG_CORE_SOURCES.jsdelivr, FFMPEG_CORE_SOURCES.unpkg];
+  }
+  return sources;
+}
+
+/**
+ * 默认来源顺序
+ *
+ * 通过构建时环境变量 NEXT_PUBLIC_FFMPEG_CORE_SOURCES 配置，
+ * 未配置时仅使用 CDN（jsdelivr → unpkg）
+ */
+export const DEFAULT_FFMPEG_CORE_SOURCES = parseFFmpegCoreSources(
+  process.env.NEXT_PUBLIC_FFMPEG_CORE_SOURCES,
+);
 
 /** 加载超时时间 (ms) */
 const LOAD_TIMEOUT = 30000;
 
+/**
+ * 单个核心文件的下载进度
+ */
+export interface FFmpegAssetProgress {
+  /** 文件名，如 ffmpeg-core.wasm */
+  asset: string;
+  /** 已接收字节数 */
+  received: number;
+  /** 总字节数，未知时为 0 */
+  total: number;
+}
+
+/**
+ * FFmpeg 加载进度回调参数
+ */
+export interface FFmpegLoadProgress {
+  /** 当前阶段描述 */
+  message: string;
+  /** 各核心文件的下载进度，仅下载阶段存在 */
+  assets?: FFmpegAssetProgress[];
+  /** 整体下载进度 0-1，任一文件大小未知时为 undefined */
+  progress?: number;
+}
+
 /**
  * FFmpeg 加载状态
  */
 export type FFmpegLoadState =
   | { status: "idle" }
-  | { status: "loading"; message?: string }
+  | ({ status: "loading" } & Partial<FFmpegLoadProgress>)
   | { status: "ready" }
   | { status: "error"; error: Error };
 
@@ -47,6 +132,24 @@ export interface FFmpegProgress {
   time: number;
 }
 
+/**
+ * 从编码统计行解析出的实时数据
+ *
+ * 统计行示例：
+ * `frame=  240 fps= 48 q=28.0 size=     512kB time=00:00:08.00 bitrate= 524.3kbits/s speed=1.6x`
+ * 字段为 N/A 时对应值为 null（如输出到 null 格式的第一遍编码没有 size）
+ */
+export interface FFmpegStats {
+  /** 已输出的时间戳（秒），从输出起点计算，不受输入 -ss 影响 */
+  time: number;
+  /** 编码帧率，纯音频输出时为 null */
+  fps: number | null;
+  /** 编码速度（实时倍数） */
+  speed: number | null;
+  /** 已写入的输出大小（字节） */
+  size: number | null;
+}
+
 /**
  * FFmpeg 日志回调参数
  */
@@ -57,6 +160,29 @@ export interface FFmpegLog {
   message: string;
 }
 
+/**
+ * 已下载核心文件的 Blob URL，可用于重新加载 FFmpeg 实例而无需再次下载
+ */
+export interface FFmpegCoreURLs {
+  coreURL: string;
+  wasmURL: string;
+  /** 仅多线程版本需要 */
+  workerURL?: string;
+}
+
+/** 多线程核心的 wasm 内存为固定的 1 GiB（共享内存不能增长） */
+export const MT_HEAP_LIMIT = 1024 * 1024 * 1024;
+
+/** 单线程核心的 wasm 内存最多增长到 2 GiB */
+export const ST_HEAP_LIMIT = 2 * 1024 * 1024 * 1024;
+
+/**
+ * 获取已加载核心的 wasm 内存上限
+ */
+export function getHeapLimit(urls: FFmpegCoreURLs): number {
+  return urls.workerURL ? MT_HEAP_LIMIT : ST_HEAP_LIMIT;
+}
+
 /**
  * 检查浏览器是否支持 SharedArrayBuffer
  */
@@ -71,59 +197,177 @@ export function isCrossOriginIsolated(): boolean {
   return typeof crossOriginIsolated !== "undefined" && crossOriginIsolated;
 }
 
+/** 下载进度回调的最小间隔 (ms)，避免每个数据块都触发状态更新 */
+const PROGRESS_THROTTLE = 100;
+
 /**
- * 尝试从指定 CDN 加载 FFmpeg (多线程版本)
+ * 待下载的核心文件
  */
-async function tryLoadMultiThread(
-  ffmpeg: FFmpeg,
+interface CoreAsset {
+  /** 文件名 */
+  asset: string;
+  /** Blob MIME 类型 */
+  mimeType: string;
+}
+
+/**
+ * 从响应头读取文件大小
+ *
+ * 响应经过压缩传输时 Content-Length 与解压后的字节数不一致，视为未知
+ */
+function getContentLength(response: Response): number {
+  if (response.headers.get("Content-Encoding")) return 0;
+  const length = Number(response.headers.get("Content-Length"));
+  return Number.isFinite(length) && length > 0 ? length : 0;
+}
+
+/**
+ * 流式下载文件并转换为 Blob URL
+ *
+ * 与 toBlobURL 不同，会检查响应状态，避免把 404 页面当作核心文件加载；
+ * 下载过程中通过 onBytes 报告已接收字节数。
+ * 已下载的文件会按核心版本缓存到 Cache Storage
+ */
+async function fetchBlobURL(
+  url: string,
+  mimeType: string,
+  onBytes: (received: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetchWithCache(url, FFMPEG_CORE_VERSION, signal);
+  if (!response.ok) {
+    throw new Error(`下载失败 (${response.status}): ${url}`);
+  }
+
+  const total = getContentLength(response);
+  const chunks: BlobPart[] = [];
+  let received = 0;
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      // 命中缓存时响应体不受 fetch 的 signal 控制
+      if (signal?.aborted) {
+        await reader.cancel().catch(() => undefined);
+        throw signal.reason;
+      }
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.byteLength;
+      onBytes(received, total);
+    }
+  } else {
+    const buffer = await response.arrayBuffer();
+    chunks.push(buffer);
+    received = buffer.byteLength;
+  }
+
+  // 下载完成后总大小即为实际接收的字节数
+  onBytes(received, received);
+  return URL.createObjectURL(new Blob(chunks, { type: mimeType }));
+}
+
+/**
+ * 并行下载一组核心文件，汇总报告下载进度
+ *
+ * @returns 与 assets 顺序一致的 Blob URL 列表
+ */
+async function downloadAssets(
   baseURL: string,
-  onProgress?: (message: string) => void,
-): Promise<void> {
-  onProgress?.("正在加载核心文件...");
-  const coreURL = await toBlobURL(
-    `${baseURL}/ffmpeg-core.js`,
-    "text/javascript",
-  );
+  assets: CoreAsset[],
+  onProgress?: (progress: FFmpegLoadProgress) => void,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const state: FFmpegAssetProgress[] = assets.map(({ asset }) => ({
+    asset,
+    received: 0,
+    total: 0,
+  }));
+  let lastReport = 0;
 
-  onProgress?.("正在加载 WASM 模块...");
-  const wasmURL = await toBlobURL(
-    `${baseURL}/ffmpeg-core.wasm`,
-    "application/wasm",
+  const report = (force: boolean) => {
+    const now = Date.now();
+    if (!force && now - lastReport < PROGRESS_THROTTLE) return;
+    lastReport = now;
+
+    const known = state.every((item) => item.total > 0);
+    const received = state.reduce((sum, item) => sum + item.received, 0);
+    const total = state.reduce((sum, item) => sum + item.total, 0);
+
+    onProgress?.({
+      message: "正在下载核心文件...",
+      assets: state.map((item) => ({ ...item })),
+      progress: known ? Math.min(1, received / total) : undefined,
+    });
+  };
+
+  report(true);
+  const urls = await Promise.all(
+    assets.map(({ asset, mimeType }, index) =>
+      fetchBlobURL(
+        `${baseURL}/${asset}`,
+        mimeType,
+        (received, total) => {
+          state[index] = { asset, received, total };
+          report(received === total);
+        },
+        signal,
+      ),
+    ),
   );
+  report(true);
+  return urls;
+}
 
-  onProgress?.("正在加载 Worker...");
-  const workerURL = await toBlobURL(
-    `${baseURL}/ffmpeg-core.worker.js`,
-    "text/javascript",
+/**
+ * 尝试从指定来源加载 FFmpeg (多线程版本)
+ */
+async function tryLoadMultiThread(
+  ffmpeg: FFmpeg,
+  baseURL: string,
+  onProgress?: (progress: FFmpegLoadProgress) => void,
+  signal?: AbortSignal,
+): Promise<FFmpegCoreURLs> {
+  const [coreURL, wasmURL, workerURL] = await downloadAssets(
+    baseURL,
+    [
+      { asset: "ffmpeg-core.js", mimeType: "text/javascript" },
+      { asset: "ffmpeg-core.wasm", mimeType: "application/wasm" },
+      { asset: "ffmpeg-core.worker.js", mimeType: "text/javascript" },
+    ],
+    onProgress,
+    signal,
   );
 
-  onProgress?.("正在初始化 FFmpeg...");
-  await ffmpeg.load({ coreURL, wasmURL, workerURL });
+  onProgress?.({ message: "正在初始化 FFmpeg...", progress: 1 });
+  await ffmpeg.load({ coreURL, wasmURL, workerURL }, { signal });
+  return { coreURL, wasmURL, workerURL };
 }
 
 /**
- * 尝试从指定 CDN 加载 FFmpeg (单线程版本)
+ * 尝试从指定来源加载 FFmpeg (单线程版本)
  */
 async function tryLoadSingleThread(
   ffmpeg: FFmpeg,
   baseURL: string,
-  onProgress?: (message: string) => void,
-): Promise<void> {
-  onProgress?.("正在加载核心文件...");
-  const coreURL = await toBlobURL(
-    `${baseURL}/ffmpeg-core.js`,
-    "text/javascript",
+  onProgress?: (progress: FFmpegLoadProgress) => void,
+  signal?: AbortSignal,
+): Promise<FFmpegCoreURLs> {
+  const [coreURL, wasmURL] = await downloadAssets(
+    baseURL,
+    [
+      { asset: "ffmpeg-core.js", mimeType: "text/javascript" },
+      { asset: "ffmpeg-core.wasm", mimeType: "application/wasm" },
+    ],
+    onProgress,
+    signal,
   );
 
-  onProgress?.("正在加载 WASM 模块...");
-  const wasmURL = await toBlobURL(
-    `${baseURL}/ffmpeg-core.wasm`,
-    "application/wasm",
-  );
-
-  onProgress?.("正在初始化 FFmpeg...");
+  onProgress?.({ message: "正在初始化 FFmpeg...", progress: 1 });
   // 单线程版本不需要 workerURL
-  await ffmpeg.load({ coreURL, wasmURL });
+  await ffmpeg.load({ coreURL, wasmURL }, { signal });
+  return { coreURL, wasmURL };
 }
 
 /**
@@ -151,94 +395,289 @@ function withTimeout<T>(
   });
 }
 
+/**
+ * loadFFmpeg 配置选项
+ */
+export interface LoadFFmpegOptions {
+  /** 按顺序尝试的核心文件来源，默认 DEFAULT_FFMPEG_CORE_SOURCES */
+  sources?: FFmpegCoreSource[];
+  /** 单个来源的加载超时时间 (ms)，默认 30s */
+  timeout?: number;
+  /** 中止下载与加载，中止后不再尝试其他来源，以 signal.reason 拒绝 */
+  signal?: AbortSignal;
+}
+
 /**
  * 加载 FFmpeg 实例
  *
  * 加载策略：
  * 1. 如果浏览器支持 SharedArrayBuffer 和 crossOriginIsolated，尝试多线程版本
  * 2. 如果多线程版本失败或浏览器不支持，回退到单线程版本
- * 3. 每种版本都会尝试主 CDN 和备用 CDN
+ * 3. 每种版本都会按顺序尝试所有配置的来源
  * 4. 所有加载都有超时限制
+ *
+ * @returns 核心文件的 Blob URL，可传给 reloadFFmpeg 复用
  */
 export async function loadFFmpeg(
   ffmpeg: FFmpeg,
-  onProgress?: (message: string) => void,
-): Promise<void> {
-  onProgress?.("正在加载 FFmpeg 核心文件...");
+  onProgress?: (progress: FFmpegLoadProgress) => void,
+  options: LoadFFmpegOptions = {},
+): Promise<FFmpegCoreURLs> {
+  const {
+    sources = DEFAULT_FFMPEG_CORE_SOURCES,
+    timeout = LOAD_TIMEOUT,
+    signal,
+  } = options;
+  signal?.throwIfAborted();
+
+  onProgress?.({ message: "正在加载 FFmpeg 核心文件..." });
+
+  // 清理旧版本核心文件缓存，不阻塞加载
+  clearStaleFFmpegCaches(FFMPEG_CORE_VERSION).catch((error) => {
+    console.warn("[FFmpeg] 清理旧缓存失败:", error);
+  });
 
   // 检查是否支持多线程
   const canUseMultiThread =
     isSharedArrayBufferSupported() && isCrossOriginIsolated();
 
   if (canUseMultiThread) {
-    // 尝试多线程版本 - 主 CDN
-    try {
-      console.log("[FFmpeg] 尝试加载多线程版本 (jsdelivr)...");
-      await withTimeout(
-        tryLoadMultiThread(ffmpeg, FFMPEG_CORE_MT_BASE_URL, onProgress),
-        LOAD_TIMEOUT,
-        `加载超时 (${LOAD_TIMEOUT / 1000}s)`,
-      );
-      onProgress?.("FFmpeg 加载完成 (多线程模式)");
-      console.log("[FFmpeg] 多线程版本加载成功");
-      return;
-    } catch (mtError) {
-      console.warn("[FFmpeg] 多线程版本加载失败:", mtError);
+    for (const [index, source] of sources.entries()) {
+      try {
+        console.log(`[FFmpeg] 尝试加载多线程版本 (${source.name})...`);
+        if (index > 0) onProgress?.({ message: "尝试备用源..." });
+        const urls = await withTimeout(
+          tryLoadMultiThread(ffmpeg, source.mtBaseURL, onProgress, signal),
+          timeout,
+          `加载超时 (${timeout / 1000}s)`,
+        );
+        onProgress?.({ message: "FFmpeg 加载完成 (多线程模式)" });
+        console.log(`[FFmpeg] 多线程版本加载成功 (${source.name})`);
+        return urls;
+      } catch (mtError) {
+        // 中止导致的失败不是来源的问题，不再回退
+        signal?.throwIfAborted();
+        console.warn(`[FFmpeg] 多线程版本加载失败 (${source.name}):`, mtError);
+      }
     }
+  } else {
+    console.log("[FFmpeg] 浏览器不支持多线程，直接使用单线程版本");
+  }
+
+  // 回退到单线程版本
+  onProgress?.({ message: "正在加载兼容模式..." });
 
-    // 尝试多线程版本 - 备用 CDN
+  for (const [index, source] of sources.entries()) {
     try {
-      console.log("[FFmpeg] 尝试多线程备用 CDN (unpkg)...");
-      onProgress?.("尝试备用源...");
-      await withTimeout(
-        tryLoadMultiThread(ffmpeg, FFMPEG_CORE_MT_FALLBACK, onProgress),
-        LOAD_TIMEOUT,
-        `加载超时 (${LOAD_TIMEOUT / 1000}s)`,
+      console.log(`[FFmpeg] 尝试单线程版本 (${source.name})...`);
+      if (index > 0) onProgress?.({ message: "尝试备用源..." });
+      const urls = await withTimeout(
+        tryLoadSingleThread(ffmpeg, source.stBaseURL, onProgress, signal),
+        timeout,
+        `加载超时 (${timeout / 1000}s)`,
       );
-      onProgress?.("FFmpeg 加载完成 (多线程模式)");
-      console.log("[FFmpeg] 多线程版本加载成功 (unpkg)");
-      return;
-    } catch (mtFallbackError) {
-      console.warn("[FFmpeg] 多线程备用 CDN 也失败:", mtFallbackError);
+      onProgress?.({ message: "FFmpeg 加载完成 (兼容模式)" });
+      console.log(`[FFmpeg] 单线程版本加载成功 (${source.name})`);
+      return urls;
+    } catch (stError) {
+      signal?.throwIfAborted();
+      console.warn(`[FFmpeg] 单线程版本加载失败 (${source.name}):`, stError);
     }
-  } else {
-    console.log("[FFmpeg] 浏览器不支持多线程，直接使用单线程版本");
   }
 
-  // 回退到单线程版本
-  onProgress?.("正在加载兼容模式...");
+  console.error("[FFmpeg] 所有加载方式都失败");
+  throw new Error("FFmpeg 初始化失败。请检查网络连接或尝试使用其他浏览器。");
+}
 
-  // 尝试单线程版本 - 主 CDN
-  try {
-    console.log("[FFmpeg] 尝试单线程版本 (jsdelivr)...");
-    await withTimeout(
-      tryLoadSingleThread(ffmpeg, FFMPEG_CORE_ST_BASE_URL, onProgress),
-      LOAD_TIMEOUT,
-      `加载超时 (${LOAD_TIMEOUT / 1000}s)`,
-    );
-    onProgress?.("FFmpeg 加载完成 (兼容模式)");
-    console.log("[FFmpeg] 单线程版本加载成功");
-    return;
-  } catch (stError) {
-    console.warn("[FFmpeg] 单线程版本加载失败:", stError);
+/**
+ * 使用已下载的核心文件重新加载 FFmpeg 实例
+ *
+ * 用于取消任务后替换被 terminate 的实例，不会重新下载
+ */
+export async function reloadFFmpeg(
+  ffmpeg: FFmpeg,
+  urls: FFmpegCoreURLs,
+): Promise<void> {
+  await ffmpeg.load(urls);
+}
+
+/**
+ * 判断错误是否由 FFmpeg.terminate() 引起（即任务被主动取消）
+ */
+export function isFFmpegTerminatedError(error: unknown): boolean {
+  return (
+    error instanceof Error && error.message === "called FFmpeg.terminate()"
+  );
+}
+
+/**
+ * 执行命令，退出码非 0 时抛出错误
+ *
+ * exec 失败时不会 reject，不检查退出码会在后续读取输出时才以“文件不存在”失败
+ */
+export async function execOrThrow(
+  ffmpeg: FFmpeg,
+  args: string[],
+): Promise<void> {
+  const exitCode = await ffmpeg.exec(args);
+  if (exitCode !== 0) {
+    throw new Error(`FFmpeg 执行失败 (exit code ${exitCode})`);
   }
+}
+
+/**
+ * 复制多线程核心读出的数据
+ *
+ * 多线程核心的内存是 SharedArrayBuffer，Blob 与文件写入流都不接受，需要复制一份
+ */
+export function toTransferableBytes(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  return (
+    data.buffer instanceof SharedArrayBuffer ? new Uint8Array(data) : data
+  ) as Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * 删除 MEMFS 中的临时文件，文件不存在时忽略
+ */
+export async function cleanupFiles(
+  ffmpeg: FFmpeg,
+  paths: string[],
+): Promise<void> {
+  await Promise.all(
+    paths.map((path) => ffmpeg.deleteFile(path).catch(() => undefined)),
+  );
+}
+
+/**
+ * 拆分挂载路径为目录与文件名，如 /input/input.mp4
+ */
+function splitMountPath(path: string): { dir: string; name: string } {
+  const index = path.lastIndexOf("/");
+  return { dir: path.slice(0, index), name: path.slice(index + 1) };
+}
+
+/**
+ * 以 WORKERFS 挂载一组 Blob（只读）
+ *
+ * WORKERFS 在 worker 中按需读取 Blob 的分片，数据不会复制到 JS 内存和 wasm 内存，
+ * 大文件不再受 MEMFS 容量限制。挂载目录由这组文件独占，结束后需调用 unmountDir。
+ */
+export async function mountBlobs(
+  ffmpeg: FFmpeg,
+  dir: string,
+  blobs: { name: string; data: Blob }[],
+): Promise<void> {
+  // 上一个任务异常退出时可能残留挂载
+  await unmountDir(ffmpeg, dir);
+  await ffmpeg.createDir(dir);
+  // 使用字符串值：@ffmpeg/ffmpeg 的 CommonJS 构建没有导出 FFFSType，
+  // 值导入会使命令行（Node.js）加载本模块失败
+  await ffmpeg.mount("WORKERFS" as FFFSType, { blobs }, dir);
+}
+
+/**
+ * 卸载 mountBlobs 挂载的目录，未挂载时忽略
+ */
+export async function unmountDir(ffmpeg: FFmpeg, dir: string): Promise<void> {
+  await ffmpeg.unmount(dir).catch(() => undefined);
+  await ffmpeg.deleteDir(dir).catch(() => undefined);
+}
+
+/**
+ * 以 WORKERFS 挂载输入文件，结束后需调用 unmountInputFile
+ *
+ * @param path - 挂载后的完整路径，如压缩计划的 `inputFile`
+ */
+export async function mountInputFile(
+  ffmpeg: FFmpeg,
+  file: Blob,
+  path: string,
+): Promise<void> {
+  const { dir, name } = splitMountPath(path);
+  await mountBlobs(ffmpeg, dir, [{ name, data: file }]);
+}
+
+/**
+ * 卸载 mountInputFile 挂载的输入文件，未挂载时忽略
+ */
+export async function unmountInputFile(
+  ffmpeg: FFmpeg,
+  path: string,
+): Promise<void> {
+  await unmountDir(ffmpeg, splitMountPath(path).dir);
+}
+
+/**
+ * 解析 `ffmpeg -encoders` 的日志输出，如
+ * ` V....D libx264              libx264 H.264 / AVC ...`
+ *
+ * @returns 编码器名称列表（视频、音频与字幕）
+ */
+export function parseEncoders(lines: string[]): string[] {
+  const encoders: string[] = [];
+  for (const line of lines) {
+    const match = line.match(/^\s*[VAS][.A-Z]{5}\s+(\S+)/);
+    if (match && match[1] !== "=") {
+      encoders.push(match[1]);
+    }
+  }
+  return encoders;
+}
+
+/** 统计行 size 字段的单位（FFmpeg 6.1 起使用 KiB） */
+const STATS_SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  kB: 1024,
+  KiB: 1024,
+  MB: 1024 * 1024,
+  MiB: 1024 * 1024,
+  GB: 1024 * 1024 * 1024,
+  GiB: 1024 * 1024 * 1024,
+};
+
+/**
+ * 解析编码过程中的统计行
+ *
+ * @returns 不是统计行或 time 为 N/A 时返回 null
+ */
+export function parseStatsLine(line: string): FFmpegStats | null {
+  const time = line.match(/time=\s*(-?)(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!time) return null;
+  const [, sign, hours, minutes, seconds] = time;
+  const fps = line.match(/fps=\s*(\d+(?:\.\d+)?)/);
+  const speed = line.match(/speed=\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?)x/);
+  const size = line.match(/size=\s*(\d+)\s*([A-Za-z]+)/);
+  const sizeUnit = size ? STATS_SIZE_UNITS[size[2]] : undefined;
+
+  return {
+    // 开始编码时时间戳可能略小于 0
+    time: sign
+      ? 0
+      : Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds),
+    fps: fps ? Number(fps[1]) : null,
+    speed: speed ? Number(speed[1]) : null,
+    size: size && sizeUnit ? Number(size[1]) * sizeUnit : null,
+  };
+}
+
+/**
+ * 检测当前核心可用的编码器
+ *
+ * @returns 编码器名称列表（视频、音频与字幕）
+ */
+export async function probeEncoders(ffmpeg: FFmpeg): Promise<string[]> {
+  const lines: string[] = [];
+  const handleLog = ({ message }: { message: string }) => {
+    lines.push(message);
+  };
 
-  // 尝试单线程版本 - 备用 CDN
+  ffmpeg.on("log", handleLog);
   try {
-    console.log("[FFmpeg] 尝试单线程备用 CDN (unpkg)...");
-    onProgress?.("尝试备用源...");
-    await withTimeout(
-      tryLoadSingleThread(ffmpeg, FFMPEG_CORE_ST_FALLBACK, onProgress),
-      LOAD_TIMEOUT,
-      `加载超时 (${LOAD_TIMEOUT / 1000}s)`,
-    );
-    onProgress?.("FFmpeg 加载完成 (兼容模式)");
-    console.log("[FFmpeg] 单线程版本加载成功 (unpkg)");
-    return;
-  } catch (stFallbackError) {
-    console.error("[FFmpeg] 所有加载方式都失败:", stFallbackError);
-    throw new Error("FFmpeg 初始化失败。请检查网络连接或尝试使用其他浏览器。");
+    await ffmpeg.exec(["-hide_banner", "-encoders"]);
+  } finally {
+    ffmpeg.off("log", handleLog);
   }
+  return parseEncoders(lines);
 }
 
 /**
@@ -7,15 +7,124 @@
 // 核心工具函数
 export {
   checkFFmpegEnvironment,
+  cleanupFiles,
+  DEFAULT_FFMPEG_CORE_SOURCES,
+  execOrThrow,
+  FFMPEG_CORE_SOURCES,
+  FFMPEG_CORE_VERSION,
+  getHeapLimit,
   isCrossOriginIsolated,
+  isFFmpegTerminatedError,
   isSharedArrayBufferSupported,
   loadFFmpeg,
+  mountBlobs,
+  mountInputFile,
+  MT_HEAP_LIMIT,
+  parseEncoders,
+  parseFFmpegCoreSources,
+  parseStatsLine,
+  probeEncoders,
+  reloadFFmpeg,
+  ST_HEAP_LIMIT,
+  toTransferableBytes,
+  unmountDir,
+  unmountInputFile,
+  type FFmpegAssetProgress,
+  type FFmpegCoreSource,
+  type FFmpegCoreSourceName,
+  type FFmpegCoreURLs,
+  type FFmpegLoadProgress,
   type FFmpegLoadState,
   type FFmpegLog,
   type FFmpegProgress,
+  type FFmpegStats,
+  type LoadFFmpegOptions,
 } from "../ffmpeg";
 
+// 核心文件缓存
+export {
+  clearFFmpegCache,
+  clearStaleFFmpegCaches,
+  getFFmpegCacheName,
+  isCacheStorageSupported,
+} from "../ffmpeg-cache";
+
+// 日志与失败诊断
+export {
+  classifyFFmpegFailure,
+  createLogBuffer,
+  LOG_BUFFER_LINES,
+  type FFmpegFailure,
+  type FFmpegFailureKind,
+  type LogBuffer,
+} from "../ffmpeg-log";
+
+// 媒体信息探测
+export {
+  getDisplaySize,
+  parseMediaInfo,
+  probeMediaInfo,
+  type AudioStreamInfo,
+  type MediaInfo,
+  type MediaStreamInfo,
+  type OtherStreamInfo,
+  type VideoStreamInfo,
+} from "../media-info";
+
+// 压缩计划
+export {
+  analyzeCompressibility,
+  buildCompressionPlan,
+  DEFAULT_SEGMENT_SECONDS,
+  getClipDuration,
+  planBitrate,
+  resolveAudio,
+  resolveCompressionOptions,
+  type AudioPlan,
+  type BitratePlan,
+  type CompressibilityAnalysis,
+  type CompressionInput,
+  type CompressionOptions,
+  type CompressionPlan,
+  type CompressionPreset,
+  type CompressionSegment,
+  type SegmentedPlan,
+} from "../compression-plan";
+
+// 无界面压缩 API
+export {
+  compressVideo,
+  runCompressionPlan,
+  type CompressVideoHandlers,
+  type CompressVideoOptions,
+  type CompressVideoProgress,
+  type CompressVideoResult,
+  type RunCompressionPlanHandlers,
+} from "../compress-video";
+
+// 直接保存到磁盘
+export {
+  isSaveFilePickerSupported,
+  pickSaveFile,
+  writeToFileHandle,
+} from "../save-file";
+
+// 分段编码
+export {
+  isSegmentResumeSupported,
+  runSegmentedPlan,
+  type RunSegmentedOptions,
+  type SegmentedProgress,
+} from "../segmented-encode";
+
 // React Hooks
+export {
+  useCompressionQueue,
+  type QueueItem,
+  type QueueItemStatus,
+  type UseCompressionQueueOptions,
+  type UseCompressionQueueReturn,
+} from "../hooks/useCompressionQueue";
 export {
   useFFmpeg,
   type UseFFmpegOptions,
@@ -0,0 +1,210 @@
+/**
+ * 输出封装格式定义
+ *
+ * 描述每种封装格式兼容的视频编码、音频编码、文件扩展名与 MIME 类型，
+ * 并在执行前校验格式与编码的组合是否可用。
+ */
+
+import { getEncoderImpl, VIDEO_CODECS, type VideoCodecId } from "./codecs";
+
+/**
+ * 输出封装格式
+ */
+export type OutputFormatId = "mp4" | "webm" | "mkv" | "mov" | "gif";
+
+/**
+ * 封装格式使用的音频编码
+ */
+export interface OutputAudioCodec {
+  /** FFmpeg 编码器名称 */
+  encoder: string;
+  /** 显示名称 */
+  label: string;
+  /** 可以直接复制的源音频编码，"any" 表示不限制 */
+  copyCodecs: readonly string[] | "any";
+}
+
+/**
+ * 输出封装格式定义
+ */
+export interface OutputFormat {
+  id: OutputFormatId;
+  /** 显示名称 */
+  label: string;
+  /** 文件扩展名（不含点） */
+  extension: string;
+  /** 输出 Blob 的 MIME 类型 */
+  mimeType: string;
+  /** 兼容的视频编码，GIF 为空（使用专用的调色板流程） */
+  videoCodecs: VideoCodecId[];
+  /** 音频编码，不支持音频时为 null */
+  audio: OutputAudioCodec | null;
+  /** 编码标签，如 HEVC 在 MP4/MOV 中使用 hvc1 以兼容 Apple 设备 */
+  codecTags: Partial<Record<VideoCodecId, string>>;
+}
+
+/** MP4 可直接复制的常见有损音频 */
+const MP4_AUDIO_CODECS = ["aac", "mp3", "ac3", "eac3", "alac"];
+
+/** GIF 使用的 FFmpeg 编码器 */
+export const GIF_ENCODER = "gif";
+
+/**
+ * 所有支持的输出格式
+ */
+export const OUTPUT_FORMATS: Record<OutputFormatId, OutputFormat> = {
+  mp4: {
+    id: "mp4",
+    label: "MP4",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    videoCodecs: ["h264", "h265", "av1"],
+    audio: { encoder: "aac", label: "AAC", copyCodecs: MP4_AUDIO_CODECS },
+    codecTags: { h265: "hvc1" },
+  },
+  webm: {
+    id: "webm",
+    label: "WebM",
+    extension: "webm",
+    mimeType: "video/webm",
+    videoCodecs: ["vp9", "av1"],
+    // WebM 不支持 AAC，源音频需要转为 Opus
+    audio: {
+      encoder: "libopus",
+      label: "Opus",
+      copyCodecs: ["opus", "vorbis"],
+    },
+    codecTags: {},
+  },
+  mkv: {
+    id: "mkv",
+    label: "MKV",
+    extension: "mkv",
+    mimeType: "video/x-matroska",
+    videoCodecs: ["h264", "h265", "vp9", "av1"],
+    audio: { encoder: "aac", label: "AAC", copyCodecs: "any" },
+    codecTags: {},
+  },
+  mov: {
+    id: "mov",
+    label: "MOV",
+    extension: "mov",
+    mimeType: "video/quicktime",
+    videoCodecs: ["h264", "h265"],
+    // MOV 额外支持 PCM
+    audio: {
+      encoder: "aac",
+      label: "AAC",
+      copyCodecs: [...MP4_AUDIO_CODECS, "pcm_s16le", "pcm_s16be", "pcm_s24le"],
+    },
+    codecTags: { h265: "hvc1" },
+  },
+  gif: {
+    id: "gif",
+    label: "GIF",
+    extension: "gif",
+    mimeType: "image/gif",
+    videoCodecs: [],
+    audio: null,
+    codecTags: {},
+  },
+};
+
+/**
+ * 判断源音频是否为无损编码（PCM、FLAC 等），直接复制会浪费大量空间
+ */
+export function isLosslessAudio(codec: string): boolean {
+  return (
+    codec.startsWith("pcm_") ||
+    ["flac", "alac", "truehd", "mlp", "wavpack", "ape"].includes(codec)
+  );
+}
+
+/**
+ * 判断源音频能否直接复制到目标格式
+ *
+ * @param codec - 源音频编码，未探测到时为 null（按 AAC 处理，与未探测时的原有行为一致）
+ */
+export function canCopyAudio(
+  format: OutputFormat,
+  codec: string | null,
+): boolean {
+  if (!format.audio) return false;
+  const { copyCodecs } = format.audio;
+  return copyCodecs === "any" || copyCodecs.includes(codec ?? "aac");
+}
+
+/**
+ * 输出组合校验问题
+ */
+export type OutputValidationIssue =
+  "codec-incompatible" | "encoder-unavailable" | "audio-encoder-unavailable";
+
+/**
+ * 获取格式兼容且当前核心可用的视频编码
+ *
+ * @param encoders - probeEncoders 返回的编码器名称
+ */
+export function getCompatibleCodecs(
+  format: OutputFormat,
+  encoders: readonly string[],
+): VideoCodecId[] {
+  return format.videoCodecs.filter(
+    (id) => getEncoderImpl(VIDEO_CODECS[id], encoders) !== null,
+  );
+}
+
+/**
+ * 获取当前核心可以输出的格式列表
+ */
+export function getAvailableFormats(
+  encoders: readonly string[],
+): OutputFormat[] {
+  return Object.values(OUTPUT_FORMATS).filter((format) =>
+    format.id === "gif"
+      ? encoders.includes(GIF_ENCODER)
+      : getCompatibleCodecs(format, encoders).length > 0,
+  );
+}
+
+/**
+ * 封装格式对视频编码的额外参数（如 -tag:v hvc1）
+ */
+export function getFormatArgs(
+  format: OutputFormat,
+  codec: VideoCodecId,
+): string[] {
+  const tag = format.codecTags[codec];
+  return tag ? ["-tag:v", tag] : [];
+}
+
+/**
+ * 执行前校验格式与编码的组合
+ *
+ * @param encodesAudio - 是否重新编码音轨；去除或直接复制音轨时不需要音频编码器
+ * @returns 第一个问题，组合可用时返回 null
+ */
+export function validateOutput(
+  format: OutputFormat,
+  codec: VideoCodecId,
+  encoders: readonly string[],
+  encodesAudio: boolean,
+): OutputValidationIssue | null {
+  if (format.id === "gif") {
+    return encoders.includes(GIF_ENCODER) ? null : "encoder-unavailable";
+  }
+  if (!format.videoCodecs.includes(codec)) {
+    return "codec-incompatible";
+  }
+  if (getEncoderImpl(VIDEO_CODECS[codec], encoders) === null) {
+    return "encoder-unavailable";
+  }
+  if (
+    encodesAudio &&
+    format.audio &&
+    !encoders.includes(format.audio.encoder)
+  ) {
+    return "audio-encoder-unavailable";
+  }
+  return null;
+}
@@ -0,0 +1,254 @@
+"use client";
+
+/**
+ * 压缩队列 React Hook
+ *
+ * 管理多文件批量压缩：逐个处理（共享同一个 FFmpeg 实例），
+ * 支持暂停/继续、移除条目以及重试失败的条目。
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * 队列条目状态
+ */
+export type QueueItemStatus = "pending" | "compressing" | "success" | "error";
+
+/**
+ * 队列条目
+ */
+export interface QueueItem<TInput, TResult> {
+  /** 唯一 ID */
+  id: string;
+  /** 处理输入 */
+  input: TInput;
+  /** 当前状态 */
+  status: QueueItemStatus;
+  /** 处理结果，仅 success 状态存在 */
+  result: TResult | null;
+  /** 错误信息，仅 error 状态存在 */
+  error: string;
+}
+
+/**
+ * useCompressionQueue Hook 配置选项
+ */
+export interface UseCompressionQueueOptions<TInput, TResult> {
+  /** 处理单个条目，抛出错误即标记为失败 */
+  process: (input: TInput) => Promise<TResult>;
+  /** 条目被移除或清空时调用，用于释放结果占用的资源（如 Blob URL） */
+  onDispose?: (item: QueueItem<TInput, TResult>) => void;
+}
+
+/**
+ * useCompressionQueue Hook 返回值
+ */
+export interface UseCompressionQueueReturn<TInput, TResult> {
+  /** 所有条目，按添加顺序 */
+  items: QueueItem<TInput, TResult>[];
+  /** 正在处理的条目 ID */
+  activeId: string | null;
+  /** 是否有条目正在处理 */
+  isRunning: boolean;
+  /** 是否已暂停（当前条目完成后不再处理后续条目） */
+  isPaused: boolean;
+  /** 添加条目，initial 可覆盖初始状态（如元数据读取失败时直接标记为 error） */
+  add: (
+    entries: {
+      input: TInput;
+      initial?: Partial<Pick<QueueItem<TInput, TResult>, "status" | "error">>;
+    }[],
+  ) => void;
+  /** 更新条目输入（如修改导出文件名） */
+  updateInput: (id: string, patch: Partial<TInput>) => void;
+  /** 开始 / 继续处理 */
+  start: () => void;
+  /** 暂停处理 */
+  pause: () => void;
+  /** 将失败条目重新加入队列，不传 id 时重试所有失败条目 */
+  retry: (id?: string) => void;
+  /** 移除条目（正在处理的条目不能移除） */
+  remove: (id: string) => void;
+  /** 清空队列（处理中不可清空） */
+  clear: () => void;
+}
+
+/**
+ * 压缩队列 React Hook
+ *
+ * @example
+ * ```tsx
+ * const queue = useCompressionQueue({
+ *   process: (video) => compressVideoFile(ffmpeg, video, ratio),
+ * });
+ * queue.add(files.map((file) => ({ input: file })));
+ * queue.start();
+ * ```
+ */
+export function useCompressionQueue<TInput, TResult>(
+  options: UseCompressionQueueOptions<TInput, TResult>,
+): UseCompressionQueueReturn<TInput, TResult> {
+  const { process, onDispose } = options;
+
+  const [items, setItems] = useState<QueueItem<TInput, TResult>[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+
+  // 处理循环在异步回调中运行，需要通过 ref 读取最新值
+  const itemsRef = useRef<QueueItem<TInput, TResult>[]>([]);
+  const runningRef = useRef(false);
+  const pausedRef = useRef(false);
+  const processRef = useRef(process);
+  const onDisposeRef = useRef(onDispose);
+
+  useEffect(() => {
+    processRef.current = process;
+    onDisposeRef.current = onDispose;
+  }, [process, onDispose]);
+
+  /**
+   * 同步更新 ref 与 state
+   */
+  const commit = useCallback(
+    (
+      update: (
+        items: QueueItem<TInput, TResult>[],
+      ) => QueueItem<TInput, TResult>[],
+    ) => {
+      itemsRef.current = update(itemsRef.current);
+      setItems(itemsRef.current);
+    },
+    [],
+  );
+
+  const patchItem = useCallback(
+    (id: string, patch: Partial<QueueItem<TInput, TResult>>) => {
+      commit((items) =>
+        items.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+      );
+    },
+    [commit],
+  );
+
+  /**
+   * 处理循环：依次处理 pending 条目，直到队列为空或被暂停
+   */
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setIsRunning(true);
+
+    try {
+      while (!pausedRef.current) {
+        const next = itemsRef.current.find((item) => item.status === "pending");
+        if (!next) break;
+
+        setActiveId(next.id);
+        patchItem(next.id, { status: "compressing", error: "" });
+
+        try {
+          const result = await processRef.current(next.input);
+          patchItem(next.id, { status: "success", result });
+        } catch (error) {
+          patchItem(next.id, {
+            status: "error",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+      setActiveId(null);
+    }
+  }, [patchItem]);
+
+  const add = useCallback<UseCompressionQueueReturn<TInput, TResult>["add"]>(
+    (entries) => {
+      commit((items) => [
+        ...items,
+        ...entries.map(({ input, initial }) => ({
+          id: `queue-${Date.now()}-${Math.random()}`,
+          input,
+          status: "pending" as const,
+          result: null,
+          error: "",
+          ...initial,
+        })),
+      ]);
+    },
+    [commit],
+  );
+
+  const updateInput = useCallback(
+    (id: string, patch: Partial<TInput>) => {
+      commit((items) =>
+        items.map((item) =>
+          item.id === id
+            ? { ...item, input: { ...item.input, ...patch } }
+            : item,
+        ),
+      );
+    },
+    [commit],
+  );
+
+  const start = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    run();
+  }, [run]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const retry = useCallback(
+    (id?: string) => {
+      commit((items) =>
+        items.map((item) =>
+          item.status === "error" && (id === undefined || item.id === id)
+            ? { ...item, status: "pending", error: "" }
+            : item,
+        ),
+      );
+    },
+    [commit],
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find((item) => item.id === id);
+      if (!item || item.status === "compressing") return;
+      onDisposeRef.current?.(item);
+      commit((items) => items.filter((item) => item.id !== id));
+    },
+    [commit],
+  );
+
+  const clear = useCallback(() => {
+    if (runningRef.current) return;
+    pausedRef.current = false;
+    setIsPaused(false);
+    itemsRef.current.forEach((item) => onDisposeRef.current?.(item));
+    commit(() => []);
+  }, [commit]);
+
+  return {
+    items,
+    activeId,
+    isRunning,
+    isPaused,
+    add,
+    updateInput,
+    start,
+    pause,
+    retry,
+    remove,
+    clear,
+  };
+}
+
+export default useCompressionQueue;
@@ -11,11 +11,22 @@ import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
   checkFFmpegEnvironment,
+  getHeapLimit,
   loadFFmpeg,
+  parseStatsLine,
+  probeEncoders,
+  reloadFFmpeg,
+  type FFmpegCoreSource,
+  type FFmpegCoreURLs,
   type FFmpegLoadState,
   type FFmpegLog,
   type FFmpegProgress,
+  type FFmpegStats,
 } from "../ffmpeg";
+import { createLogBuffer } from "../ffmpeg-log";
+
+/** 编码器检测失败时假定可用的编码器 */
+const DEFAULT_ENCODERS = ["libx264", "aac"];
 
 /**
  * useFFmpeg Hook 返回值
@@ -23,21 +34,53 @@ import {
 export interface UseFFmpegReturn {
   /** FFmpeg 实例引用，加载完成后可用 */
   ffmpeg: FFmpeg | null;
+  /**
+   * 同步获取当前已加载的实例
+   *
+   * 供异步流程（如批量队列）使用：取消任务后实例会被替换，
+   * 而闭包中的 ffmpeg 可能仍指向已终止的旧实例
+   */
+  getFFmpeg: () => FFmpeg | null;
   /** 当前加载状态 */
   loadState: FFmpegLoadState;
   /** 是否已加载完成 */
   isLoaded: boolean;
   /** 是否正在加载 */
   isLoading: boolean;
+  /** 核心文件下载进度 0-1，未在加载或文件大小未知时为 null */
+  loadProgress: number | null;
+  /** 当前核心可用的编码器名称，加载完成前为空 */
+  encoders: string[];
+  /** 已加载核心的 wasm 内存上限（字节），加载完成前为 null */
+  heapLimit: number | null;
   /** 当前进度信息（执行命令时） */
   progress: FFmpegProgress | null;
+  /**
+   * 从日志解析的最新编码统计（执行命令时）
+   *
+   * 比 progress 事件可靠：-c:a copy、缩放等情况下 progress 可能不更新或超出范围
+   */
+  stats: FFmpegStats | null;
   /** 最新的日志消息 */
   logMessage: string;
+  /** 获取自上次 clearLogs 以来的日志（最多保留 LOG_BUFFER_LINES 行） */
+  getLogs: () => string[];
+  /** 清空日志缓冲区，开始新任务前调用 */
+  clearLogs: () => void;
   /** 手动加载 FFmpeg */
   load: () => Promise<void>;
+  /** 是否正在替换被取消任务终止的实例 */
+  isRestarting: boolean;
+  /**
+   * 取消正在执行的命令
+   *
+   * 终止当前实例（其 MEMFS 中的文件随之释放），并使用已下载的核心文件
+   * 重新加载一个新实例，不改变 loadState
+   */
+  cancel: () => Promise<void>;
   /** 重置状态（用于错误恢复） */
   reset: () => void;
-  /** 清理进度数据 */
+  /** 清理进度数据（包括编码统计） */
   clearProgress: () => void;
   /** 环境检查结果 */
   environmentCheck: ReturnType<typeof checkFFmpegEnvironment> | null;
@@ -49,6 +92,8 @@ export interface UseFFmpegReturn {
 export interface UseFFmpegOptions {
   /** 是否在组件挂载时自动加载 FFmpeg，默认 false */
   autoLoad?: boolean;
+  /** 按顺序尝试的核心文件来源，默认读取 NEXT_PUBLIC_FFMPEG_CORE_SOURCES */
+  coreSources?: FFmpegCoreSource[];
   /** 日志回调 */
   onLog?: (log: FFmpegLog) => void;
   /** 进度回调 */
@@ -85,7 +130,14 @@ export interface UseFFmpegOptions {
  * ```
  */
 export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
-  const { autoLoad = false, onLog, onProgress, onLoaded, onError } = options;
+  const {
+    autoLoad = false,
+    coreSources,
+    onLog,
+    onProgress,
+    onLoaded,
+    onError,
+  } = options;
 
   // FFmpeg 实例引用
   const ffmpegRef = useRef<FFmpeg | null>(null);
@@ -97,7 +149,15 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
     status: "idle",
   });
   const [progress, setProgress] = useState<FFmpegProgress | null>(null);
+  const [stats, setStats] = useState<FFmpegStats | null>(null);
   const [logMessage, setLogMessage] = useState<string>("");
+  // 完整日志只用于错误报告，保存在 ref 中，避免每行日志都触发渲染
+  const logBufferRef = useRef(createLogBuffer());
+  const [isRestarting, setIsRestarting] = useState(false);
+  const [encoders, setEncoders] = useState<string[]>([]);
+  const [heapLimit, setHeapLimit] = useState<number | null>(null);
+  // 已加载核心文件的 Blob URL，取消任务后重新加载实例时复用
+  const coreURLsRef = useRef<FFmpegCoreURLs | null>(null);
   const [environmentCheck, setEnvironmentCheck] = useState<ReturnType<
     typeof checkFFmpegEnvironment
   > | null>(null);
@@ -105,6 +165,10 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
   // 派生状态
   const isLoaded = loadState.status === "ready";
   const isLoading = loadState.status === "loading";
+  const loadProgress =
+    loadState.status === "loading" && loadState.progress !== undefined
+      ? loadState.progress
+      : null;
 
   /**
    * 初始化 FFmpeg 实例并设置事件监听
@@ -119,6 +183,9 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
     // 设置日志监听
     ffmpeg.on("log", ({ type, message }) => {
       setLogMessage(message);
+      logBufferRef.current.push(message);
+      const parsed = parseStatsLine(message);
+      if (parsed) setStats(parsed);
       onLog?.({ type, message });
     });
 
@@ -156,9 +223,18 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
     try {
       const ffmpeg = initFFmpegInstance();
 
-      await loadFFmpeg(ffmpeg, (message) => {
-        setLoadState({ status: "loading", message });
-      });
+      const urls = await loadFFmpeg(
+        ffmpeg,
+        (loadProgress) => {
+          setLoadState({ status: "loading", ...loadProgress });
+        },
+        { sources: coreSources },
+      );
+      coreURLsRef.current = urls;
+      setHeapLimit(getHeapLimit(urls));
+
+      // 检测失败时按原有行为只提供 H.264 + AAC
+      setEncoders(await probeEncoders(ffmpeg).catch(() => DEFAULT_ENCODERS));
 
       // 更新 state 以触发组件重新渲染
       setFFmpegInstance(ffmpeg);
@@ -169,7 +245,42 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
       setLoadState({ status: "error", error: err });
       onError?.(err);
     }
-  }, [loadState.status, initFFmpegInstance, onLoaded, onError]);
+  }, [loadState.status, initFFmpegInstance, coreSources, onLoaded, onError]);
+
+  const getFFmpeg = useCallback(() => {
+    const ffmpeg = ffmpegRef.current;
+    return ffmpeg?.loaded ? ffmpeg : null;
+  }, []);
+
+  /**
+   * 取消正在执行的命令
+   */
+  const cancel = useCallback(async () => {
+    const urls = coreURLsRef.current;
+    if (!ffmpegRef.current || !urls) {
+      return;
+    }
+
+    // terminate() 是停止 exec 的唯一方式，正在等待的 exec 会以错误结束
+    ffmpegRef.current.terminate();
+    ffmpegRef.current = null;
+    setFFmpegInstance(null);
+    setProgress(null);
+    setStats(null);
+    setIsRestarting(true);
+
+    try {
+      const ffmpeg = initFFmpegInstance();
+      await reloadFFmpeg(ffmpeg, urls);
+      setFFmpegInstance(ffmpeg);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      setLoadState({ status: "error", error: err });
+      onError?.(err);
+    } finally {
+      setIsRestarting(false);
+    }
+  }, [initFFmpegInstance, onError]);
 
   /**
    * 重置状态
@@ -182,16 +293,23 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
     }
 
     setLoadState({ status: "idle" });
+    setHeapLimit(null);
     setProgress(null);
+    setStats(null);
     setLogMessage("");
+    logBufferRef.current.clear();
     setEnvironmentCheck(null);
   }, []);
 
+  const getLogs = useCallback(() => logBufferRef.current.lines(), []);
+  const clearLogs = useCallback(() => logBufferRef.current.clear(), []);
+
   /**
    * 清理进度数据(压缩完成后调用)
    */
   const clearProgress = useCallback(() => {
     setProgress(null);
+    setStats(null);
   }, []);
 
   // 自动加载 - 使用 ref 避免级联渲染
@@ -217,12 +335,21 @@ export function useFFmpeg(options: UseFFmpegOptions = {}): UseFFmpegReturn {
 
   return {
     ffmpeg: ffmpegInstance,
+    getFFmpeg,
     loadState,
     isLoaded,
     isLoading,
+    loadProgress,
+    encoders,
+    heapLimit,
     progress,
+    stats,
     logMessage,
+    getLogs,
+    clearLogs,
     load,
+    isRestarting,
+    cancel,
     reset,
     clearProgress,
     environmentCheck,
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { getDisplaySize, parseMediaInfo } from "./media-info";
+
+/** `ffmpeg -hide_banner -i` 的日志：按行拆分，与 log 事件一致 */
+function banner(text: string): string[] {
+  return text.split("\n").filter((line) => line.length > 0);
+}
+
+describe("parseMediaInfo", () => {
+  it("parses a screen recording without audio", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/probe/probe-input.mp4':
+  Metadata:
+    major_brand     : isom
+    minor_version   : 512
+    compatible_brands: isomiso2avc1mp41
+    encoder         : Lavf60.3.100
+  Duration: 00:01:05.40, start: 0.000000, bitrate: 2150 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709, progressive), 1920x1080 [SAR 1:1 DAR 16:9], 2146 kb/s, 30 fps, 30 tbr, 15360 tbn (default)
+      Metadata:
+        handler_name    : VideoHandler
+        vendor_id       : [0][0][0][0]
+At least one output file must be specified`),
+    );
+
+    expect(info).toMatchObject({
+      format: "mov,mp4,m4a,3gp,3g2,mj2",
+      duration: 65.4,
+      bitrate: 2150,
+      audio: null,
+    });
+    expect(info?.video).toMatchObject({
+      codec: "h264",
+      width: 1920,
+      height: 1080,
+      fps: 30,
+      bitrate: 2146,
+      rotation: 0,
+      language: null,
+      isDefault: true,
+    });
+    expect(info?.streams).toHaveLength(1);
+  });
+
+  it("applies the display matrix of a portrait phone video", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/probe/probe-input.mov':
+  Metadata:
+    creation_time   : 2024-05-01T10:20:30.000000Z
+    com.apple.quicktime.make: Apple
+  Duration: 00:00:12.53, start: 0.000000, bitrate: 8354 kb/s
+  Stream #0:0[0x1](und): Video: hevc (Main) (hvc1 / 0x31637668), yuv420p(tv, bt709), 1920x1080, 8153 kb/s, 29.98 fps, 30 tbr, 600 tbn (default)
+      Metadata:
+        creation_time   : 2024-05-01T10:20:30.000000Z
+        handler_name    : Core Media Video
+      Side data:
+        displaymatrix: rotation of -90.00 degrees
+  Stream #0:1[0x2](eng): Audio: aac (LC) (mp4a / 0x6134706D), 44100 Hz, stereo, fltp, 190 kb/s (default)
+      Metadata:
+        handler_name    : Core Media Audio`),
+    );
+
+    expect(info?.video).toMatchObject({
+      codec: "hevc",
+      width: 1920,
+      height: 1080,
+      fps: 29.98,
+      rotation: 90,
+    });
+    expect(getDisplaySize(info!.video!)).toEqual({ width: 1080, height: 1920 });
+    expect(info?.audio).toMatchObject({
+      codec: "aac",
+      bitrate: 190,
+      language: "eng",
+      sampleRate: 44100,
+      channelLayout: "stereo",
+      channels: 2,
+    });
+  });
+
+  it("reads the legacy rotate tag", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'input.mp4':
+  Duration: 00:00:05.00, start: 0.000000, bitrate: 4000 kb/s
+  Stream #0:0(und): Video: h264 (avc1 / 0x31637661), yuv420p, 1280x720, 3900 kb/s, 30 fps, 30 tbr, 90k tbn, 60 tbc (default)
+    Metadata:
+      rotate          : 270
+      handler_name    : VideoHandle`),
+    );
+
+    expect(info?.video?.rotation).toBe(270);
+    expect(getDisplaySize(info!.video!)).toEqual({ width: 720, height: 1280 });
+  });
+
+  it("falls back to tbr when the stream has no average frame rate", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'vfr.mp4':
+  Duration: 00:00:20.00, start: 0.000000, bitrate: 6900 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709), 1080x1920, 6812 kb/s, 59.70 tbr, 90k tbn (default)`),
+    );
+
+    expect(info?.video).toMatchObject({ width: 1080, height: 1920, fps: 59.7 });
+  });
+
+  it("treats a millisecond time base as an unknown frame rate", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, matroska,webm, from '/probe/probe-input.webm':
+  Metadata:
+    ENCODER         : Chrome
+  Duration: 00:00:42.12, start: 0.000000, bitrate: 1820 kb/s
+  Stream #0:0(eng): Video: vp8, yuv420p(progressive), 1280x720, SAR 1:1 DAR 16:9, 1k tbr, 1k tbn (default)
+  Stream #0:1(eng): Audio: opus, 48000 Hz, mono, fltp (default)`),
+    );
+
+    expect(info?.format).toBe("matroska,webm");
+    // MediaRecorder 的 VFR 录像只有毫秒时间基（1k tbr），没有真实帧率
+    expect(info?.video).toMatchObject({ codec: "vp8", fps: null });
+    expect(info?.video?.bitrate).toBeNull();
+    expect(info?.audio).toMatchObject({
+      codec: "opus",
+      bitrate: null,
+      channels: 1,
+    });
+  });
+
+  it("keeps an unknown duration at zero", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, matroska,webm, from '/probe/probe-input.webm':
+  Metadata:
+    ENCODER         : Chrome
+  Duration: N/A, start: 0.000000, bitrate: N/A
+  Stream #0:0(eng): Video: h264 (Constrained Baseline), yuv420p(progressive), 640x480, SAR 1:1 DAR 4:3, 30.30 fps, 30 tbr, 1k tbn (default)`),
+    );
+
+    expect(info?.duration).toBe(0);
+    expect(info?.bitrate).toBeNull();
+    expect(info?.video?.fps).toBeCloseTo(30.3);
+  });
+
+  it("prefers the real video over cover art and the default audio track", () => {
+    const info = parseMediaInfo(
+      banner(`Input #0, matroska,webm, from 'movie.mkv':
+  Duration: 01:02:03.50, start: 0.000000, bitrate: 3000 kb/s
+  Stream #0:0: Video: mjpeg (Baseline), yuvj420p(pc, bt470bg/unknown/unknown), 600x600 [SAR 1:1 DAR 1:1], 90k tbr, 90k tbn (attached pic)
+  Stream #0:1(jpn): Video: h264 (High), yuv420p(progressive), 1920x800, SAR 1:1 DAR 12:5, 23.98 fps, 23.98 tbr, 1k tbn
+  Stream #0:2(jpn): Audio: flac, 48000 Hz, 5.1(side), s32 (24 bit)
+  Stream #0:3(eng): Audio: aac (LC), 48000 Hz, stereo, fltp (default)
+  Stream #0:4(eng): Subtitle: subrip`),
+    );
+
+    expect(info?.duration).toBeCloseTo(3723.5);
+    expect(info?.streams.map((stream) => stream.type)).toEqual([
+      "video",
+      "video",
+      "audio",
+      "audio",
+      "subtitle",
+    ]);
+    expect(info?.video).toMatchObject({ index: 1, codec: "h264", fps: 23.98 });
+    expect(info?.audio).toMatchObject({ index: 3, codec: "aac" });
+    expect(info?.streams[2]).toMatchObject({ channels: 6 });
+  });
+
+  it("returns null when ffmpeg could not read the input", () => {
+    expect(
+      parseMediaInfo(
+        banner(
+          `/probe/probe-input.bin: Invalid data found when processing input`,
+        ),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * 媒体信息探测
+ *
+ * 通过 `ffmpeg -i` 的日志输出解析输入文件的封装、时长、码率与各路流信息。
+ * 与 HTMLVideoElement 不同，不依赖浏览器能否解码（MKV、AVI、HEVC 等同样可用）。
+ */
+
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+import { mountInputFile, unmountInputFile } from "./ffmpeg";
+
+/**
+ * 各类流的公共信息
+ */
+interface MediaStreamBase {
+  /** 流序号，对应 `-map 0:<index>` */
+  index: number;
+  /** 编码名称，如 h264、hevc、aac、pcm_s16le */
+  codec: string;
+  /** 码率 (kbps)，未知时为 null */
+  bitrate: number | null;
+  /** 语言标签，如 eng */
+  language: string | null;
+  /** 是否为默认流 */
+  isDefault: boolean;
+}
+
+/**
+ * 视频流信息
+ */
+export interface VideoStreamInfo extends MediaStreamBase {
+  type: "video";
+  /** 编码宽度（未考虑旋转） */
+  width: number;
+  /** 编码高度（未考虑旋转） */
+  height: number;
+  /** 帧率，未知时为 null */
+  fps: number | null;
+  /** 顺时针旋转角度 0 / 90 / 180 / 270 */
+  rotation: number;
+  /** 是否为封面图（attached pic） */
+  isCoverArt: boolean;
+}
+
+/**
+ * 音频流信息
+ */
+export interface AudioStreamInfo extends MediaStreamBase {
+  type: "audio";
+  /** 采样率 (Hz)，未知时为 null */
+  sampleRate: number | null;
+  /** 声道布局，如 stereo、5.1(side) */
+  channelLayout: string | null;
+  /** 声道数，未知时为 null */
+  channels: number | null;
+}
+
+/**
+ * 其他流（字幕、数据、附件）
+ */
+export interface OtherStreamInfo extends MediaStreamBase {
+  type: "subtitle" | "data" | "attachment";
+}
+
+export type MediaStreamInfo =
+  VideoStreamInfo | AudioStreamInfo | OtherStreamInfo;
+
+/**
+ * 输入文件的媒体信息
+ */
+export interface MediaInfo {
+  /** 封装格式名称，如 "mov,mp4,m4a,3gp,3g2,mj2"、"matroska,webm" */
+  format: string;
+  /** 时长（秒），未知时为 0 */
+  duration: number;
+  /** 总码率 (kbps)，未知时为 null */
+  bitrate: number | null;
+  /** 所有流 */
+  streams: MediaStreamInfo[];
+  /** 主视频流（跳过封面图），没有视频时为 null */
+  video: VideoStreamInfo | null;
+  /** 主音频流，没有音频时为 null */
+  audio: AudioStreamInfo | null;
+}
+
+/** 常见声道布局对应的声道数 */
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  "2.1": 3,
+  "3.0": 3,
+  quad: 4,
+  "4.0": 4,
+  "5.0": 5,
+  "5.1": 6,
+  "6.1": 7,
+  "7.1": 8,
+};
+
+/**
+ * 解析声道布局为声道数，如 "5.1(side)" → 6、"3 channels" → 3
+ */
+function parseChannels(layout: string): number | null {
+  const count = layout.match(/^(\d+) channels?$/);
+  if (count) return Number(count[1]);
+  return CHANNEL_LAYOUTS[layout.replace(/\(.*\)$/, "")] ?? null;
+}
+
+/**
+ * 解析 "HH:MM:SS.xx" 格式的时长
+ */
+function parseDuration(value: string): number {
+  const match = value.match(/(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) return 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/** tbr 超过该值时视为时间基而非帧率（MediaRecorder 录制的 WebM 为 1k tbr） */
+const MAX_TBR_FPS = 240;
+
+/**
+ * 解析帧率，兼容 "29.97 fps" 与 "30k tbr" 写法
+ */
+function parseFps(description: string): number | null {
+  const fps = description.match(/([\d.]+)(k?) fps/);
+  const tbr = fps ? null : description.match(/([\d.]+)(k?) tbr/);
+  const match = fps ?? tbr;
+  if (!match) return null;
+  const value = Number(match[1]) * (match[2] ? 1000 : 1);
+  if (tbr && value > MAX_TBR_FPS) return null;
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * 将角度规范化为 0 / 90 / 180 / 270
+ */
+function normalizeRotation(degrees: number): number {
+  return (((Math.round(degrees / 90) * 90) % 360) + 360) % 360;
+}
+
+/**
+ * 解析 `ffmpeg -i` 的日志输出
+ *
+ * 只解析第一个输入（Input #0），示例：
+ * ```
+ * Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'input.mp4':
+ *   Duration: 00:00:10.03, start: 0.000000, bitrate: 1234 kb/s
+ *   Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1920x1080, 1100 kb/s, 29.97 fps, ...
+ *       Side data:
+ *         displaymatrix: rotation of -90.00 degrees
+ *   Stream #0:1[0x2](und): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s (default)
+ * ```
+ *
+ * @param lines - 日志行
+ * @returns 没有找到输入信息时返回 null
+ */
+export function parseMediaInfo(lines: string[]): MediaInfo | null {
+  let format: string | null = null;
+  let duration = 0;
+  let bitrate: number | null = null;
+  const streams: MediaStreamInfo[] = [];
+  let current: MediaStreamInfo | null = null;
+
+  for (const line of lines) {
+    const input = line.match(/^Input #(\d+), (.+?), from /);
+    if (input) {
+      // 只关心第一个输入
+      if (input[1] !== "0") break;
+      format = input[2];
+      continue;
+    }
+    if (format === null) continue;
+    if (/^Output #/.test(line)) break;
+
+    const durationMatch = line.match(/^\s*Duration: ([^,]+)/);
+    if (durationMatch) {
+      duration = parseDuration(durationMatch[1]);
+      const total = line.match(/bitrate: (\d+) kb\/s/);
+      bitrate = total ? Number(total[1]) : null;
+      continue;
+    }
+
+    const stream = line.match(
+      /^\s*Stream #0:(\d+)(?:\[[^\]]*\])?(?:\(([^)]*)\))?: (Video|Audio|Subtitle|Data|Attachment): (.*)$/,
+    );
+    if (stream) {
+      const [, index, language, kind, description] = stream;
+      const streamBitrate = description.match(/(\d+) kb\/s/);
+      const base: MediaStreamBase = {
+        index: Number(index),
+        codec: description.match(/^(\S+?)(?:\s|,|$)/)?.[1] ?? "unknown",
+        bitrate: streamBitrate ? Number(streamBitrate[1]) : null,
+        language: language && language !== "und" ? language : null,
+        isDefault: /\(default\)/.test(description),
+      };
+
+      if (kind === "Video") {
+        const size = description.match(/, (\d{2,5})x(\d{2,5})/);
+        const isCoverArt = /\(attached pic\)/.test(description);
+        current = {
+          ...base,
+          type: "video",
+          width: size ? Number(size[1]) : 0,
+          height: size ? Number(size[2]) : 0,
+          // 封面图只有一帧，tbr 没有意义
+          fps: isCoverArt ? null : parseFps(description),
+          rotation: 0,
+          isCoverArt,
+        };
+      } else if (kind === "Audio") {
+        const sampleRate = description.match(/(\d+) Hz/);
+        const layout = description.match(/Hz, ([^,]+)/)?.[1]?.trim() ?? null;
+        current = {
+          ...base,
+          type: "audio",
+          sampleRate: sampleRate ? Number(sampleRate[1]) : null,
+          channelLayout: layout,
+          channels: layout ? parseChannels(layout) : null,
+        };
+      } else {
+        current = {
+          ...base,
+          type: kind.toLowerCase() as OtherStreamInfo["type"],
+        };
+      }
+      streams.push(current);
+      continue;
+    }
+
+    // 旋转信息出现在所属视频流之后：旧版本为 rotate 元数据，新版本为 displaymatrix
+    if (current?.type === "video") {
+      const rotate = line.match(/^\s*rotate\s*:\s*(-?\d+)/);
+      if (rotate) {
+        current.rotation = normalizeRotation(Number(rotate[1]));
+        continue;
+      }
+      const matrix = line.match(/rotation of (-?[\d.]+) degrees/);
+      if (matrix) {
+        // displaymatrix 为逆时针角度
+        current.rotation = normalizeRotation(-Number(matrix[1]));
+      }
+    }
+  }
+
+  if (format === null) return null;
+
+  const videoStreams = streams.filter(
+    (stream): stream is VideoStreamInfo => stream.type === "video",
+  );
+  const audioStreams = streams.filter(
+    (stream): stream is AudioStreamInfo => stream.type === "audio",
+  );
+
+  return {
+    format,
+    duration,
+    bitrate,
+    streams,
+    video:
+      videoStreams.find((stream) => !stream.isCoverArt) ??
+      videoStreams[0] ??
+      null,
+    audio:
+      audioStreams.find((stream) => stream.isDefault) ??
+      audioStreams[0] ??
+      null,
+  };
+}
+
+/**
+ * 获取视频流的显示尺寸（已考虑旋转）
+ */
+export function getDisplaySize(stream: VideoStreamInfo): {
+  width: number;
+  height: number;
+} {
+  return stream.rotation % 180 === 90
+    ? { width: stream.height, height: stream.width }
+    : { width: stream.width, height: stream.height };
+}
+
+/**
+ * 使用 FFmpeg 探测文件的媒体信息
+ *
+ * 文件以 WORKERFS 临时挂载，探测完成后卸载。
+ * `ffmpeg -i` 没有指定输出时以非零状态退出，这是预期行为，只解析日志。
+ *
+ * @throws 日志中没有输入信息时（文件无法识别）
+ */
+export async function probeMediaInfo(
+  ffmpeg: FFmpeg,
+  file: File,
+): Promise<MediaInfo> {
+  const extension = file.name.match(/\.[^/.]+$/)?.[0] ?? "";
+  const path = `/probe/probe-input${extension}`;
+  const lines: string[] = [];
+  const handleLog = ({ message }: { message: string }) => {
+    lines.push(message);
+  };
+
+  ffmpeg.on("log", handleLog);
+  try {
+    await mountInputFile(ffmpeg, file, path);
+    await ffmpeg.exec(["-hide_banner", "-i", path]);
+  } finally {
+    ffmpeg.off("log", handleLog);
+    await unmountInputFile(ffmpeg, path);
+  }
+
+  const info = parseMediaInfo(lines);
+  if (!info) {
+    throw new Error("无法识别的媒体文件");
+  }
+  return info;
+}
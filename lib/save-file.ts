@@ -0,0 +1,86 @@
+/**
+ * 直接保存输出到磁盘
+ *
+ * 支持 File System Access API 的浏览器可以在开始压缩前选择保存位置，
+ * 编码完成后把输出直接写入 FileSystemWritableFileStream，不再创建内存中的 Blob；
+ * 不支持时（Firefox、Safari、跨域 iframe）继续使用 Blob URL 下载。
+ */
+
+import { toTransferableBytes } from "./ffmpeg";
+
+/**
+ * showSaveFilePicker 的选项（尚未包含在 TypeScript 的 DOM 类型中）
+ */
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+type WindowWithSavePicker = Window & {
+  showSaveFilePicker?: (
+    options?: SaveFilePickerOptions,
+  ) => Promise<FileSystemFileHandle>;
+};
+
+/**
+ * 检查能否弹出保存文件对话框
+ *
+ * 跨域 iframe（如嵌入组件）中调用会抛出 SecurityError，视为不支持
+ */
+export function isSaveFilePickerSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "showSaveFilePicker" in window &&
+    window.self === window.top
+  );
+}
+
+/**
+ * 让用户选择保存位置，必须在用户手势（点击）中调用
+ *
+ * @param suggestedName - 默认文件名
+ * @param mimeType - 输出 MIME 类型，用于过滤文件类型
+ * @param extension - 文件扩展名（不含点）
+ * @returns 文件句柄，用户取消时返回 null
+ */
+export async function pickSaveFile(
+  suggestedName: string,
+  mimeType: string,
+  extension: string,
+): Promise<FileSystemFileHandle | null> {
+  const { showSaveFilePicker } = window as WindowWithSavePicker;
+  if (!showSaveFilePicker) return null;
+  try {
+    return await showSaveFilePicker({
+      suggestedName,
+      types: [{ accept: { [mimeType]: [`.${extension}`] } }],
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 将输出写入已选择的文件
+ *
+ * 写入失败时放弃本次写入，磁盘上的文件保持原样。
+ *
+ * @returns 磁盘上的文件（File 按需从磁盘读取，不占用内存）
+ */
+export async function writeToFileHandle(
+  handle: FileSystemFileHandle,
+  data: Uint8Array,
+): Promise<File> {
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(toTransferableBytes(data));
+    await writable.close();
+  } catch (error) {
+    await writable.abort().catch(() => undefined);
+    throw error;
+  }
+  return handle.getFile();
+}
@@ -0,0 +1,269 @@
+/**
+ * 分段编码
+ *
+ * 执行 buildCompressionPlan 生成的分段计划：逐个编码片段并移出 wasm 内存，
+ * 再单独处理音轨，最后把片段挂载回来无损拼接。
+ * 已完成的片段保存在 Origin Private File System 中，页面崩溃或任务取消后，
+ * 用相同的文件与设置重新开始会跳过已完成的片段。
+ */
+
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+import type {
+  CompressionPlan,
+  CompressionSegment,
+  SegmentedPlan,
+} from "./compression-plan";
+import {
+  cleanupFiles,
+  execOrThrow,
+  mountBlobs,
+  mountInputFile,
+  toTransferableBytes,
+  unmountDir,
+  unmountInputFile,
+  type FFmpegProgress,
+} from "./ffmpeg";
+import { writeToFileHandle } from "./save-file";
+
+/** OPFS 中保存片段的目录，同一时间只保留一个任务 */
+const SEGMENT_STORE_DIR = "compressmp4-segments";
+
+/** 记录任务标识的文件，标识不同时清空目录 */
+const JOB_KEY_FILE = "job.txt";
+
+/**
+ * 分段编码进度
+ */
+export interface SegmentedProgress {
+  /** 总体进度 0-1，按片段时长加权（音轨与拼接耗时很短，不计入） */
+  progress: number;
+  /** 当前片段，从 1 开始 */
+  segment: number;
+  totalSegments: number;
+  /** 从上次中断处恢复、直接跳过的片段数 */
+  resumed: number;
+}
+
+/**
+ * runSegmentedPlan 选项
+ */
+export interface RunSegmentedOptions {
+  /** 输入的完整时长（秒），FFmpeg 按完整时长计算进度 */
+  inputDuration: number;
+  onProgress?: (progress: SegmentedProgress) => void;
+}
+
+/**
+ * 已完成片段的存储
+ */
+interface SegmentStore {
+  /** 读取已保存的文件，不存在时返回 null */
+  get(name: string): Promise<Blob | null>;
+  put(name: string, data: Uint8Array): Promise<void>;
+  /** 删除任务的全部文件 */
+  clear(): Promise<void>;
+}
+
+/**
+ * 检查能否把片段写入 OPFS（需要 createWritable，Safari 较新版本才支持）
+ */
+export function isSegmentResumeSupported(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype
+  );
+}
+
+/**
+ * 计算任务标识：同一文件与相同的分段参数得到相同的标识
+ *
+ * 使用 FNV-1a 哈希，只用于区分任务，不需要抗碰撞
+ */
+function getJobKey(file: File, segmented: SegmentedPlan): string {
+  const source = [
+    file.name,
+    file.size,
+    file.lastModified,
+    JSON.stringify(segmented),
+  ].join("\n");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * 内存中的片段存储（不支持 OPFS 时使用，无法恢复）
+ */
+function createMemoryStore(): SegmentStore {
+  const files = new Map<string, Blob>();
+  return {
+    get: async (name) => files.get(name) ?? null,
+    put: async (name, data) => {
+      files.set(name, new Blob([toTransferableBytes(data)]));
+    },
+    clear: async () => files.clear(),
+  };
+}
+
+/**
+ * 打开任务的片段存储
+ *
+ * OPFS 中的文件在 close 时才提交，崩溃时不会留下写了一半的片段；
+ * 但 getFileHandle 会先创建空文件，因此空文件视为不存在。
+ */
+async function openSegmentStore(jobKey: string): Promise<SegmentStore> {
+  if (!isSegmentResumeSupported()) return createMemoryStore();
+
+  const root = await navigator.storage.getDirectory();
+  let dir = await root.getDirectoryHandle(SEGMENT_STORE_DIR, { create: true });
+  const keyFile = await dir
+    .getFileHandle(JOB_KEY_FILE)
+    .then((handle) => handle.getFile())
+    .then((file) => file.text())
+    .catch(() => null);
+
+  // 其他任务的片段不会再被使用，清空后再开始
+  if (keyFile !== jobKey) {
+    await root.removeEntry(SEGMENT_STORE_DIR, { recursive: true });
+    dir = await root.getDirectoryHandle(SEGMENT_STORE_DIR, { create: true });
+    await writeToFileHandle(
+      await dir.getFileHandle(JOB_KEY_FILE, { create: true }),
+      new TextEncoder().encode(jobKey),
+    );
+  }
+
+  return {
+    get: async (name) => {
+      const file = await dir
+        .getFileHandle(name)
+        .then((handle) => handle.getFile())
+        .catch(() => null);
+      return file && file.size > 0 ? file : null;
+    },
+    put: async (name, data) => {
+      await writeToFileHandle(
+        await dir.getFileHandle(name, { create: true }),
+        data,
+      );
+    },
+    clear: () => root.removeEntry(SEGMENT_STORE_DIR, { recursive: true }),
+  };
+}
+
+/**
+ * 执行分段压缩计划
+ *
+ * 输入以 WORKERFS 挂载；每个片段编码完成后读出并保存，MEMFS 中只保留当前片段。
+ * 失败或取消时已完成的片段保留在存储中，成功后清空。
+ *
+ * @param plan - segmented 不为 null 的压缩计划
+ * @returns 输出文件数据
+ * @throws FFmpeg 执行失败，或实例被 terminate
+ */
+export async function runSegmentedPlan(
+  ffmpeg: FFmpeg,
+  file: File,
+  plan: CompressionPlan & { segmented: SegmentedPlan },
+  options: RunSegmentedOptions,
+): Promise<Uint8Array> {
+  const { segments, audio, mountDir, listFile, list, concatArgs } =
+    plan.segmented;
+  const { inputDuration, onProgress } = options;
+  const store = await openSegmentStore(getJobKey(file, plan.segmented));
+
+  const lengthOf = (segment: CompressionSegment) => segment.end - segment.start;
+  const total = segments.reduce((sum, segment) => sum + lengthOf(segment), 0);
+  let done = 0;
+  let resumed = 0;
+  const report = (segment: number, current: number) => {
+    onProgress?.({
+      progress: total > 0 ? Math.min(1, (done + current) / total) : 1,
+      segment,
+      totalSegments: segments.length,
+      resumed,
+    });
+  };
+
+  // 片段使用 -ss/-to 输入参数，FFmpeg 仍按完整输入时长计算进度
+  let active: { segment: CompressionSegment; pass: number } | null = null;
+  const handleProgress = ({ progress }: FFmpegProgress) => {
+    if (!active || progress <= 0 || progress > 1) return;
+    const { segment, pass } = active;
+    const length = lengthOf(segment);
+    const passFraction = Math.min(1, (progress * inputDuration) / length);
+    report(
+      segment.index + 1,
+      (length * (pass + passFraction)) / segment.passes.length,
+    );
+  };
+
+  ffmpeg.on("progress", handleProgress);
+  try {
+    await mountInputFile(ffmpeg, file, plan.inputFile);
+    try {
+      for (const segment of segments) {
+        if (await store.get(segment.outputFile)) {
+          resumed++;
+        } else {
+          try {
+            for (const [pass, args] of segment.passes.entries()) {
+              active = { segment, pass };
+              await execOrThrow(ffmpeg, args);
+            }
+            active = null;
+            const data = await ffmpeg.readFile(segment.outputFile);
+            await store.put(segment.outputFile, data as Uint8Array);
+          } finally {
+            await cleanupFiles(ffmpeg, segment.tempFiles);
+          }
+        }
+        done += lengthOf(segment);
+        report(segment.index + 1, 0);
+      }
+
+      if (audio && !(await store.get(audio.outputFile))) {
+        try {
+          await execOrThrow(ffmpeg, audio.args);
+          const data = await ffmpeg.readFile(audio.outputFile);
+          await store.put(audio.outputFile, data as Uint8Array);
+        } finally {
+          await cleanupFiles(ffmpeg, [audio.outputFile]);
+        }
+      }
+    } finally {
+      active = null;
+      await unmountInputFile(ffmpeg, plan.inputFile);
+    }
+
+    // 片段与音轨从存储挂载，拼接时不复制到 wasm 内存
+    const names = segments.map((segment) => segment.outputFile);
+    if (audio) names.push(audio.outputFile);
+    const blobs = await Promise.all(
+      names.map(async (name) => {
+        const data = await store.get(name);
+        if (!data) throw new Error(`片段丢失: ${name}`);
+        return { name, data };
+      }),
+    );
+
+    let output: Uint8Array;
+    await mountBlobs(ffmpeg, mountDir, blobs);
+    try {
+      await ffmpeg.writeFile(listFile, list);
+      await execOrThrow(ffmpeg, concatArgs);
+      output = (await ffmpeg.readFile(plan.outputFile)) as Uint8Array;
+    } finally {
+      await cleanupFiles(ffmpeg, [listFile, plan.outputFile]);
+      await unmountDir(ffmpeg, mountDir);
+    }
+    await store.clear();
+    return output;
+  } finally {
+    ffmpeg.off("progress", handleProgress);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Service Worker 注册
+ *
+ * 仅在生产环境注册，避免开发环境的热更新请求被缓存。
+ */
+
+import { FFMPEG_CORE_VERSION } from "./ffmpeg";
+
+/**
+ * 检查浏览器是否支持 Service Worker
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator;
+}
+
+/**
+ * 注册 /sw.js
+ *
+ * 注册 URL 带上构建 ID 与 FFMPEG_CORE_VERSION，任一变化时浏览器会安装新的
+ * Service Worker 并清理旧版本缓存
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (process.env.NODE_ENV !== "production" || !isServiceWorkerSupported()) {
+    return;
+  }
+
+  try {
+    const params = new URLSearchParams({
+      build: process.env.NEXT_PUBLIC_BUILD_ID ?? "",
+      v: FFMPEG_CORE_VERSION,
+    });
+    await navigator.serviceWorker.register(`/sw.js?${params}`);
+  } catch (error) {
+    console.warn("[SW] 注册失败:", error);
+  }
+}
@@ -21,6 +21,14 @@ export function formatTime(seconds: number): string {
   return `${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
 }
 
+export function formatTimecode(seconds: number): string {
+  if (!isFinite(seconds) || isNaN(seconds)) return "00:00.000";
+  const ms = Math.round(seconds * 1000);
+  const m = Math.floor(ms / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}.${(ms % 1000).toString().padStart(3, "0")}`;
+}
+
 export const getVideoMetadata = (
   file: File,
 ): Promise<{ duration: number; width: number; height: number }> => {
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { createZipBlob, dedupeName, type ZipEntry } from "./zip";
+
+const decoder = new TextDecoder();
+
+interface ParsedEntry {
+  name: string;
+  crc: number;
+  size: number;
+  data: string;
+}
+
+/**
+ * 按中央目录读取归档，同时核对本地头部与中央目录一致
+ */
+async function readZip(blob: Blob): Promise<ParsedEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const entries: ParsedEntry[] = [];
+  let cursor = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const crc = view.getUint32(cursor + 16, true);
+    const size = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(cursor + 46, cursor + 46 + nameLength),
+    );
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(view.getUint16(localOffset + 26, true)).toBe(nameLength);
+    const dataStart = localOffset + 30 + nameLength;
+    expect(decoder.decode(bytes.subarray(localOffset + 30, dataStart))).toBe(
+      name,
+    );
+
+    entries.push({
+      name,
+      crc,
+      size,
+      data: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+    });
+    cursor += 46 + nameLength;
+  }
+  expect(cursor).toBe(end);
+  return entries;
+}
+
+function textEntry(name: string, text: string): ZipEntry {
+  return { name, data: new Blob([text]) };
+}
+
+describe("createZipBlob", () => {
+  it("stores the CRC-32 of each file", async () => {
+    const [entry] = await readZip(
+      await createZipBlob([textEntry("check.txt", "123456789")]),
+    );
+
+    // CRC-32 标准校验值
+    expect(entry).toEqual({
+      name: "check.txt",
+      crc: 0xcbf43926,
+      size: 9,
+      data: "123456789",
+    });
+  });
+
+  it("points every central header at its local header", async () => {
+    const progress: number[] = [];
+    const entries = await readZip(
+      await createZipBlob(
+        [
+          textEntry("a.mp4", "first"),
+          textEntry("视频.mp4", ""),
+          textEntry("c.mp4", "third file"),
+        ],
+        (processed) => progress.push(processed),
+      ),
+    );
+
+    expect(entries.map(({ name, data }) => [name, data])).toEqual([
+      ["a.mp4", "first"],
+      ["视频.mp4", ""],
+      ["c.mp4", "third file"],
+    ]);
+    expect(entries[1].crc).toBe(0);
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it("renames duplicates the same way dedupeName does", async () => {
+    const names = ["a.mp4", "a.mp4", "README", "README", "a.mp4"];
+    const used = new Set(["manifest.json"]);
+    const manifestNames = names.map((name) => dedupeName(name, used));
+
+    expect(manifestNames).toEqual([
+      "a.mp4",
+      "a (2).mp4",
+      "README",
+      "README (2)",
+      "a (3).mp4",
+    ]);
+    expect(new Set(manifestNames).size).toBe(names.length);
+
+    // 预先去重后的名称写入归档时保持不变，与清单一致
+    const archived = await readZip(
+      await createZipBlob(manifestNames.map((name) => textEntry(name, name))),
+    );
+    expect(archived.map((entry) => entry.name)).toEqual(manifestNames);
+  });
+
+  it("reserves names that are already taken", () => {
+    const used = new Set(["manifest.json"]);
+
+    expect(dedupeName("manifest.json", used)).toBe("manifest (2).json");
+    expect(used.has("manifest (2).json")).toBe(true);
+  });
+
+  it("rejects more entries than the format can count", async () => {
+    const entries = Array.from({ length: 0xffff }, (_, index) =>
+      textEntry(`${index}.txt`, ""),
+    );
+
+    await expect(createZipBlob(entries)).rejects.toThrow(/最多包含 65534/);
+  });
+
+  it("rejects archives over 4 GB without reading them", async () => {
+    // 只读取 size，不会分配 4 GB 内存
+    const huge = { size: 0xffffffff } as Blob;
+
+    await expect(
+      createZipBlob([{ name: "huge.mp4", data: huge }]),
+    ).rejects.toThrow(/4 GB/);
+    await expect(
+      createZipBlob([
+        { name: "a.mp4", data: { size: 0x80000000 } as Blob },
+        { name: "b.mp4", data: { size: 0x80000000 } as Blob },
+      ]),
+    ).rejects.toThrow(/4 GB/);
+  });
+});
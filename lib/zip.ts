@@ -0,0 +1,195 @@
+/**
+ * 浏览器端 ZIP 打包工具（仅存储模式，不压缩）
+ *
+ * 视频已经是压缩格式，deflate 几乎没有收益，因此只使用 store 模式。
+ * 生成的 ZIP 是由头部与原始 Blob 拼接而成的 Blob，不会复制文件数据；
+ * 读取文件内容只为了流式计算 CRC-32。
+ *
+ * 限制：不支持 ZIP64，单个文件和整个归档都不能超过 4 GB，条目数不能超过 65534。
+ */
+
+/**
+ * ZIP 条目
+ */
+export interface ZipEntry {
+  /** 归档内的文件名（UTF-8） */
+  name: string;
+  /** 文件内容 */
+  data: Blob;
+  /** 修改时间，默认当前时间 */
+  lastModified?: Date;
+}
+
+/**
+ * ZIP 格式中 32 位与 16 位字段的上限
+ *
+ * 0xFFFFFFFF 与 0xFFFF 在 ZIP64 中表示“见扩展记录”，不能作为实际值
+ */
+const ZIP_MAX_SIZE = 0xfffffffe;
+const ZIP_MAX_ENTRIES = 0xfffe;
+
+/** 超出大小上限时的错误信息 */
+const ZIP_TOO_LARGE = "ZIP 文件超过 4 GB，请分批下载";
+
+/** 通用标志位：文件名使用 UTF-8 编码 */
+const FLAG_UTF8 = 0x0800;
+
+/** CRC-32 查找表 */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 流式计算 Blob 的 CRC-32
+ */
+async function crc32(blob: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 转换为 MS-DOS 日期/时间格式
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 为重名文件添加序号，如 a.mp4 → a (2).mp4
+ *
+ * 需要在打包前确定最终文件名（如写入清单）时，可先用同一个 `used` 集合预先去重
+ *
+ * @param used - 已占用的文件名，返回的名称会加入其中
+ */
+export function dedupeName(name: string, used: Set<string>): string {
+  let candidate = name;
+  let index = 2;
+  while (used.has(candidate)) {
+    const dot = name.lastIndexOf(".");
+    candidate =
+      dot > 0
+        ? `${name.slice(0, dot)} (${index})${name.slice(dot)}`
+        : `${name} (${index})`;
+    index++;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * 生成 ZIP 归档
+ *
+ * @param entries - 要打包的文件，重名文件会自动添加序号
+ * @param onProgress - 计算校验和的进度回调（已处理条目数 / 总数）
+ */
+export async function createZipBlob(
+  entries: ZipEntry[],
+  onProgress?: (processed: number, total: number) => void,
+): Promise<Blob> {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new Error(
+      `ZIP 最多包含 ${ZIP_MAX_ENTRIES} 个文件（当前 ${entries.length} 个），请分批下载`,
+    );
+  }
+  // 先按数据大小检查，避免计算完校验和才发现超限
+  const dataSize = entries.reduce((sum, entry) => sum + entry.data.size, 0);
+  if (dataSize > ZIP_MAX_SIZE) {
+    throw new Error(ZIP_TOO_LARGE);
+  }
+
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const [index, entry] of entries.entries()) {
+    const size = entry.data.size;
+    const name = encoder.encode(dedupeName(entry.name, usedNames));
+    // 本地头部与数据都必须位于 32 位偏移之内
+    if (offset + 30 + name.length + size > ZIP_MAX_SIZE) {
+      throw new Error(ZIP_TOO_LARGE);
+    }
+    const crc = await crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    // Local file header
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, 0, true); // method: store
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true); // compressed size
+    lv.setUint32(22, size, true); // uncompressed size
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // extra length
+    local.set(name, 30);
+
+    // Central directory header
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, 0, true); // method: store
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true); // local header offset
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    centralDirectory.push(central);
+    offset += local.length + size;
+    onProgress?.(index + 1, entries.length);
+  }
+
+  const centralSize = centralDirectory.reduce((sum, c) => sum + c.length, 0);
+  if (offset + centralSize > ZIP_MAX_SIZE) {
+    throw new Error(ZIP_TOO_LARGE);
+  }
+
+  // End of central directory record
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], {
+    type: "application/zip",
+  });
+}
@@ -1,6 +1,20 @@
 import type { NextConfig } from "next";
 
+/**
+ * 构建 ID
+ *
+ * 可通过 APP_BUILD_ID 指定（如提交哈希），默认使用构建时间。
+ * Service Worker 以此区分应用外壳缓存，每次部署都会替换旧缓存。
+ */
+const BUILD_ID = process.env.APP_BUILD_ID?.trim() || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
+  generateBuildId: async () => BUILD_ID,
+
+  env: {
+    NEXT_PUBLIC_BUILD_ID: BUILD_ID,
+  },
+
   /**
    * 配置 Cross-Origin Isolation 响应头
    * 启用 SharedArrayBuffer 以支持 FFmpeg.wasm 多线程模式
@@ -22,6 +36,19 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      /**
+       * 嵌入组件（public/embed.js 与 /embed iframe）允许被其他域名加载，
+       * 宿主页面启用 COEP require-corp 时同样可用
+       */
+      ...["/embed", "/embed.js"].map((source) => ({
+        source,
+        headers: [
+          {
+            key: "Cross-Origin-Resource-Policy",
+            value: "cross-origin",
+          },
+        ],
+      })),
     ];
   },
 
@@ -0,0 +1,93 @@
+/**
+ * <compress-mp4> 自定义元素
+ *
+ * 在任意页面中嵌入压缩组件：
+ *   <script src="https://compressmp4.org/embed.js" defer></script>
+ *   <compress-mp4 ratio="50" formats="mp4,webm" max-size="25"></compress-mp4>
+ *
+ * 属性：
+ * - ratio: 默认压缩比例 (1-100)
+ * - formats: 允许的输出格式，逗号分隔，第一个为默认格式
+ * - max-size: 输出大小上限 (MB)，设置后固定为目标大小模式
+ *
+ * 组件运行在 /embed 的 iframe 中，拥有独立的跨域隔离环境，不依赖宿主页面的样式与构建。
+ * 每个文件压缩完成后在元素上派发 compressed 事件，
+ * event.detail 为 { blob, name, size, mimeType }。
+ * 修改属性会重新加载 iframe。
+ */
+
+(() => {
+  // 与 components/embed-compressor.tsx 中的消息类型保持一致
+  const COMPRESSED_MESSAGE = "compress-mp4:compressed";
+  const RESIZE_MESSAGE = "compress-mp4:resize";
+  const ATTRIBUTES = ["ratio", "formats", "max-size"];
+
+  // iframe 从脚本所在的域名加载
+  const ORIGIN = new URL(document.currentScript?.src || location.href).origin;
+
+  class CompressMp4Element extends HTMLElement {
+    static observedAttributes = ATTRIBUTES;
+
+    constructor() {
+      super();
+      this.iframe = document.createElement("iframe");
+      this.iframe.title = "Compress MP4";
+      // 宿主页面同样跨域隔离时启用多线程核心
+      this.iframe.allow = "cross-origin-isolated";
+      this.iframe.style.cssText =
+        "display:block;width:100%;height:720px;border:0;";
+      this.handleMessage = this.handleMessage.bind(this);
+    }
+
+    connectedCallback() {
+      if (!this.iframe.isConnected) this.appendChild(this.iframe);
+      window.addEventListener("message", this.handleMessage);
+      this.updateSrc();
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener("message", this.handleMessage);
+    }
+
+    attributeChangedCallback() {
+      if (this.isConnected) this.updateSrc();
+    }
+
+    updateSrc() {
+      const url = new URL("/embed", ORIGIN);
+      // 结果只发送给宿主页面（不支持 ancestorOrigins 的浏览器使用）
+      url.searchParams.set("host", location.origin);
+      for (const name of ATTRIBUTES) {
+        const value = this.getAttribute(name);
+        if (value !== null) url.searchParams.set(name, value);
+      }
+      if (this.iframe.src !== url.href) this.iframe.src = url.href;
+    }
+
+    handleMessage(event) {
+      // 只接受本元素 iframe 发出的消息
+      if (
+        event.origin !== ORIGIN ||
+        event.source !== this.iframe.contentWindow
+      ) {
+        return;
+      }
+      const { type, ...data } = event.data || {};
+      if (type === RESIZE_MESSAGE && data.height > 0) {
+        this.iframe.style.height = `${Math.ceil(data.height)}px`;
+      } else if (type === COMPRESSED_MESSAGE) {
+        this.dispatchEvent(
+          new CustomEvent("compressed", {
+            detail: data,
+            bubbles: true,
+            composed: true,
+          }),
+        );
+      }
+    }
+  }
+
+  if (!customElements.get("compress-mp4")) {
+    customElements.define("compress-mp4", CompressMp4Element);
+  }
+})();
@@ -0,0 +1,106 @@
+/**
+ * Service Worker - 离线缓存应用外壳
+ *
+ * 外壳缓存以注册 URL 的 ?build= 参数（应用构建 ID）区分，?v= 为 FFMPEG_CORE_VERSION。
+ * 任一参数变化时会安装新的 Service Worker，并在 activate 阶段删除旧缓存，
+ * 避免部署后仍从缓存返回旧页面。
+ *
+ * 只缓存页面导航、预缓存的静态资源与带哈希的 /_next/static/ 文件，
+ * 其他请求（查询参数变体、接口等）直接走网络，避免缓存无限增长。
+ * FFmpeg 核心文件（/ffmpeg/* 及 CDN）由页面内的 Cache Storage 层处理，这里不拦截。
+ */
+
+const params = new URL(self.location.href).searchParams;
+const BUILD_ID = params.get("build") || "0";
+const VERSION = params.get("v") || "0";
+const SHELL_CACHE = `compressmp4-shell-${BUILD_ID}`;
+const CORE_CACHE = `compressmp4-ffmpeg-core-v${VERSION}`;
+
+/** 安装时预缓存的应用外壳资源 */
+const PRECACHE_URLS = ["/", "/logo.png", "/favicon.ico"];
+
+/** 预缓存的静态资源路径（页面由导航请求处理） */
+const STATIC_PATHS = new Set(PRECACHE_URLS.filter((path) => path !== "/"));
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) =>
+                name.startsWith("compressmp4-") &&
+                name !== SHELL_CACHE &&
+                name !== CORE_CACHE,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+/**
+ * 网络优先：在线时获取最新内容，离线时回退到缓存
+ *
+ * @param cacheKey - 缓存键，不含查询参数，同一路径只保留一份
+ */
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    // 重定向响应不能用于导航请求，不缓存
+    if (response.ok && !response.redirected) {
+      cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * 缓存优先：用于带哈希的静态资源，内容不会变化
+ */
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/ffmpeg/")) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate" || STATIC_PATHS.has(url.pathname)) {
+    event.respondWith(networkFirst(request, url.origin + url.pathname));
+  }
+});
@@ -0,0 +1,51 @@
+/**
+ * 将 FFmpeg 核心文件复制到 public/ 目录
+ *
+ * 仅当 NEXT_PUBLIC_FFMPEG_CORE_SOURCES 包含 "self" 时执行复制，
+ * 使应用可以从自身域名加载核心文件（离线 / 内网环境、严格 COEP）。
+ * 默认不复制：ffmpeg-core.wasm 超过 Cloudflare Pages 单文件 25 MiB 的限制。
+ *
+ * 用法：NEXT_PUBLIC_FFMPEG_CORE_SOURCES=self,jsdelivr node scripts/copy-ffmpeg-core.mjs
+ */
+
+import { copyFile, mkdir, readdir, rm } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const require = createRequire(import.meta.url);
+const rootDir = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+);
+const targetRoot = path.join(rootDir, "public", "ffmpeg");
+
+/** 需要复制的核心包及其在 public/ffmpeg 下的目录名 */
+const CORE_PACKAGES = [
+  { name: "@ffmpeg/core-mt", dir: "core-mt" },
+  { name: "@ffmpeg/core", dir: "core" },
+];
+
+const sources = (process.env.NEXT_PUBLIC_FFMPEG_CORE_SOURCES ?? "")
+  .split(",")
+  .map((s) => s.trim());
+
+// 先清理旧文件，避免未启用 self 时把残留的核心文件一起部署
+await rm(targetRoot, { recursive: true, force: true });
+
+if (!sources.includes("self")) {
+  console.log("[ffmpeg-core] 未启用 self 来源，跳过复制");
+  process.exit(0);
+}
+
+for (const pkg of CORE_PACKAGES) {
+  // 包的 main 入口指向 dist/umd/ffmpeg-core.js
+  const srcDir = path.dirname(require.resolve(pkg.name));
+  const destDir = path.join(targetRoot, pkg.dir);
+  await mkdir(destDir, { recursive: true });
+
+  for (const file of await readdir(srcDir)) {
+    await copyFile(path.join(srcDir, file), path.join(destDir, file));
+  }
+  console.log(`[ffmpeg-core] ${pkg.name} -> public/ffmpeg/${pkg.dir}`);
+}